@@ -0,0 +1,119 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import type { Plugin, ViteDevServer } from 'vite';
+import { parsePrompts } from '../src/yaml-parser.ts';
+import { validatePrompts } from '../src/prompt-validator.ts';
+import { getFallbackChain } from '../src/language-fallbacks.ts';
+
+const PROMPTS_PATH = fileURLToPath(new URL('../src/journal-prompts.yaml', import.meta.url));
+const VIRTUAL_MODULE_ID = 'virtual:prompt-data';
+const RESOLVED_VIRTUAL_MODULE_ID = `\0${VIRTUAL_MODULE_ID}`;
+const PROMPT_FILE_PATTERN = /^\/prompts\/([\w-]+)\.json(?:\?.*)?$/;
+
+interface CompiledPrompts {
+  languages: string[];
+  files: Map<string, string>; // Lower-case language code → JSON
+  warnings: string[];
+}
+
+/**
+ * Validates journal-prompts.yaml and compiles it to one JSON file per language,
+ * with the texts of fallback languages filled in
+ * @throws Error listing all validation errors
+ */
+function compilePrompts(): CompiledPrompts {
+  const yamlText = readFileSync(PROMPTS_PATH, 'utf-8');
+
+  // Missing translations are fine, the fallback chain fills them in
+  const report = validatePrompts(yamlText, { allowMissingTranslations: true });
+  const format = (issue: typeof report.issues[number]): string => `${issue.location}: ${issue.message}`;
+  const errors = report.issues.filter(issue => issue.severity === 'error').map(format);
+  if (errors.length > 0) {
+    throw new Error(`Invalid journal-prompts.yaml:\n${errors.join('\n')}`);
+  }
+
+  const languages = report.languages.map(language => language.toUpperCase());
+  const files = new Map<string, string>();
+  languages.forEach(language => {
+    files.set(language.toLowerCase(), JSON.stringify(parsePrompts(yamlText, getFallbackChain(language))));
+  });
+
+  return {
+    languages,
+    files,
+    warnings: report.issues.filter(issue => issue.severity === 'warning').map(format),
+  };
+}
+
+/**
+ * Replaces fetching and parsing the multilingual YAML in the browser: emits prompts/<code>.json
+ * per language and the list of languages as virtual:prompt-data. The dev server serves the
+ * files from memory and reloads the page when the YAML changes.
+ */
+export function promptsPlugin(): Plugin {
+  let compiled: CompiledPrompts | null = null;
+
+  return {
+    name: 'journal-prompts-prompts',
+
+    buildStart() {
+      this.addWatchFile(PROMPTS_PATH);
+      try {
+        compiled = compilePrompts();
+      } catch (error) {
+        this.error(error instanceof Error ? error.message : String(error));
+      }
+      compiled.warnings.forEach(warning => this.warn(warning));
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_MODULE_ID ? RESOLVED_VIRTUAL_MODULE_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_VIRTUAL_MODULE_ID) {
+        return null;
+      }
+      return `export const PROMPT_LANGUAGES = ${JSON.stringify(compiled?.languages ?? [])};`;
+    },
+
+    configureServer(server: ViteDevServer) {
+      server.watcher.add(PROMPTS_PATH);
+      server.watcher.on('change', path => {
+        if (path !== PROMPTS_PATH) {
+          return;
+        }
+        try {
+          compiled = compilePrompts();
+        } catch (error) {
+          // Keep serving the last valid prompts until the file is fixed
+          server.config.logger.error(error instanceof Error ? error.message : String(error));
+          return;
+        }
+
+        const virtualModule = server.moduleGraph.getModuleById(RESOLVED_VIRTUAL_MODULE_ID);
+        if (virtualModule) {
+          server.moduleGraph.invalidateModule(virtualModule);
+        }
+        server.ws.send({ type: 'full-reload' });
+      });
+
+      server.middlewares.use((req, res, next) => {
+        const match = PROMPT_FILE_PATTERN.exec(req.url ?? '');
+        const file = match ? compiled?.files.get(match[1]) : undefined;
+        if (!file) {
+          next();
+          return;
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.end(file);
+      });
+    },
+
+    generateBundle() {
+      compiled?.files.forEach((source, language) => {
+        this.emitFile({ type: 'asset', fileName: `prompts/${language}.json`, source });
+      });
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Plugin, Rollup } from 'vite';
+
+const TEMPLATE_PATH = fileURLToPath(new URL('../src/service-worker.js', import.meta.url));
+const PUBLIC_DIR = fileURLToPath(new URL('../public', import.meta.url));
+
+// Files in public/ that are not needed by the app itself
+const EXCLUDED_PUBLIC_FILES = ['browserconfig.xml'];
+
+// Modules only loaded on demand to read YAML (installing packs, prompt files next to the app),
+// so their chunks are not worth precaching for every visitor
+const ON_DEMAND_MODULES = [/\/node_modules\/js-yaml\//, /\/src\/(prompt-validator|yaml-parser)\.ts$/];
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap(name => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+}
+
+function isOnDemandChunk(output: Rollup.OutputAsset | Rollup.OutputChunk): boolean {
+  return output.type === 'chunk' && output.isDynamicEntry && !output.isEntry
+    && Object.keys(output.modules).some(id => ON_DEMAND_MODULES.some(pattern => pattern.test(id.split('\\').join('/'))));
+}
+
+/**
+ * Emits sw.js with the list of all built assets and public files to precache.
+ * The cache version is derived from their names and contents, so every change
+ * to the app or the prompt file installs a new service worker.
+ */
+export function serviceWorkerPlugin(): Plugin {
+  return {
+    name: 'journal-prompts-service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const urls = ['./'];
+
+      for (const [fileName, output] of Object.entries(bundle)) {
+        if (fileName.endsWith('.map') || isOnDemandChunk(output)) {
+          continue;
+        }
+        urls.push(`./${fileName}`);
+        hash.update(fileName);
+        hash.update(output.type === 'chunk' ? output.code : output.source);
+      }
+
+      for (const path of listFiles(PUBLIC_DIR)) {
+        const fileName = relative(PUBLIC_DIR, path).split('\\').join('/');
+        if (EXCLUDED_PUBLIC_FILES.includes(fileName)) {
+          continue;
+        }
+        urls.push(`./${fileName}`);
+        hash.update(fileName);
+        hash.update(readFileSync(path));
+      }
+
+      const source = readFileSync(TEMPLATE_PATH, 'utf-8')
+        .replace('__CACHE_VERSION__', hash.digest('hex').slice(0, 12))
+        .replace('__PRECACHE_URLS__', JSON.stringify(urls.sort(), null, 2));
+
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Checks that every translation bundle has the same keys as en.json.
+ * Region variants (e.g. de-ch.json) may leave out keys, as they fall back to their base language.
+ *
+ * Usage: npm run check:translations
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const TRANSLATIONS_DIR = fileURLToPath(new URL('../src/translations/', import.meta.url));
+const REFERENCE_FILE = 'en.json';
+
+// Plural forms differ per language (e.g. "few" in Polish), so they count as one key
+function isPluralForms(value) {
+  return typeof value.other === 'string' && Object.values(value).every(form => typeof form === 'string');
+}
+
+function collectKeys(value, prefix = '') {
+  return Object.entries(value).flatMap(([key, child]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (child && typeof child === 'object' && !isPluralForms(child)) {
+      return collectKeys(child, path);
+    }
+    return [path];
+  });
+}
+
+function readKeys(file) {
+  return new Set(collectKeys(JSON.parse(readFileSync(`${TRANSLATIONS_DIR}${file}`, 'utf8'))));
+}
+
+const referenceKeys = readKeys(REFERENCE_FILE);
+let errors = 0;
+
+for (const file of readdirSync(TRANSLATIONS_DIR).filter(name => name.endsWith('.json') && name !== REFERENCE_FILE)) {
+  const keys = readKeys(file);
+  const isRegionVariant = file.includes('-');
+
+  const missing = isRegionVariant ? [] : [...referenceKeys].filter(key => !keys.has(key));
+  const unknown = [...keys].filter(key => !referenceKeys.has(key));
+
+  missing.forEach(key => console.error(`${file}: missing key ${key}`));
+  unknown.forEach(key => console.error(`${file}: unknown key ${key}`));
+  errors += missing.length + unknown.length;
+}
+
+if (errors > 0) {
+  console.error(`\n${errors} translation problem(s) found, compare with ${REFERENCE_FILE}`);
+  process.exit(1);
+}
+console.log('All translation bundles match en.json');
@@ -0,0 +1,65 @@
+/**
+ * Validates journal-prompts.yaml and prints the translation coverage per category and language.
+ * Exits non-zero if there are errors.
+ *
+ * Usage: npm run validate:prompts [-- <file>] [-- --allow-missing]
+ */
+
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { validatePrompts } from '../src/prompt-validator.ts';
+import { ValidationReport } from '../src/types.ts';
+
+const DEFAULT_FILE = fileURLToPath(new URL('../src/journal-prompts.yaml', import.meta.url));
+
+function formatCell(translated: number, total: number): string {
+  const percent = total > 0 ? Math.round((translated / total) * 100) : 100;
+  return `${translated}/${total} ${percent}%`;
+}
+
+function printCoverage(report: ValidationReport): void {
+  const rows: string[][] = [['Category', ...report.languages]];
+  const totals: { [language: string]: number } = {};
+  let totalPrompts = 0;
+
+  for (const [categoryId, coverage] of Object.entries(report.coverage)) {
+    totalPrompts += coverage.total;
+    rows.push([categoryId, ...report.languages.map(language => {
+      const translated = coverage.translated[language] ?? 0;
+      totals[language] = (totals[language] ?? 0) + translated;
+      return formatCell(translated, coverage.total);
+    })]);
+  }
+  rows.push(['Total', ...report.languages.map(language => formatCell(totals[language] ?? 0, totalPrompts))]);
+
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  rows.forEach((row, index) => {
+    console.log(row.map((cell, column) => cell.padEnd(widths[column])).join('  '));
+    if (index === 0 || index === rows.length - 2) {
+      console.log(widths.map(width => '-'.repeat(width)).join('  '));
+    }
+  });
+}
+
+const args = process.argv.slice(2);
+const file = args.find(arg => !arg.startsWith('--')) ?? DEFAULT_FILE;
+const report = validatePrompts(readFileSync(file, 'utf8'), {
+  allowMissingTranslations: args.includes('--allow-missing'),
+});
+
+report.issues.forEach(issue => {
+  const log = issue.severity === 'error' ? console.error : console.warn;
+  log(`${issue.severity.toUpperCase()} ${issue.location}: ${issue.message}`);
+});
+if (report.issues.length > 0) {
+  console.log('');
+}
+
+if (report.languages.length > 0) {
+  printCoverage(report);
+}
+
+const errors = report.issues.filter(issue => issue.severity === 'error').length;
+const warnings = report.issues.length - errors;
+console.log(`\n${errors} error(s), ${warnings} warning(s) in ${file}`);
+process.exit(errors > 0 ? 1 : 0);
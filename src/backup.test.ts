@@ -0,0 +1,180 @@
+// @vitest-environment jsdom
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BackupManager } from './backup.ts';
+import { BACKUP, STORAGE_KEYS } from './constants.ts';
+import { BackupData, JournalEntry } from './types.ts';
+
+// Journal entries live in IndexedDB, which jsdom doesn't have
+const entryStore = vi.hoisted(() => ({
+  getAllEntries: vi.fn(() => Promise.resolve([])),
+  saveEntries: vi.fn(() => Promise.resolve()),
+  clearEntries: vi.fn(() => Promise.resolve()),
+}));
+vi.mock('./entry-store.ts', () => ({ EntryStore: entryStore }));
+
+function createBackup(storage: { [key: string]: unknown }, entries: JournalEntry[] = []): BackupData {
+  const serialized: { [key: string]: string } = {};
+  Object.entries(storage).forEach(([key, value]) => {
+    serialized[key] = typeof value === 'string' ? value : JSON.stringify(value);
+  });
+  return { format: BACKUP.FORMAT, version: BACKUP.VERSION, exportedAt: '2025-01-31T08:00:00.000Z', storage: serialized, entries };
+}
+
+function store(key: string, value: unknown): void {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+function read(key: string): unknown {
+  return JSON.parse(localStorage.getItem(key) ?? 'null');
+}
+
+describe('BackupManager.restoreBackup', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.clearAllMocks();
+  });
+
+  it('merges favorites without duplicates, keeping the existing order', async () => {
+    store(STORAGE_KEYS.FAVORITES, ['BIO1', 'BIO2']);
+    await BackupManager.restoreBackup(createBackup({ [STORAGE_KEYS.FAVORITES]: ['BIO2', 'WRK1'] }), 'merge');
+
+    expect(read(STORAGE_KEYS.FAVORITES)).toEqual(['BIO1', 'BIO2', 'WRK1']);
+  });
+
+  it('merges packs by ID, the backup replacing a pack with the same ID', async () => {
+    store(STORAGE_KEYS.PACKS, [{ id: 'retros', name: 'Old' }, { id: 'local', name: 'Local' }]);
+    await BackupManager.restoreBackup(createBackup({
+      [STORAGE_KEYS.PACKS]: [{ id: 'retros', name: 'New' }, { id: 'other', name: 'Other' }],
+    }), 'merge');
+
+    expect(read(STORAGE_KEYS.PACKS)).toEqual([
+      { id: 'retros', name: 'New' },
+      { id: 'local', name: 'Local' },
+      { id: 'other', name: 'Other' },
+    ]);
+  });
+
+  it('merges the prompts and categories of the personal library by ID', async () => {
+    store(STORAGE_KEYS.PERSONAL_PROMPTS, {
+      prompts: [{ id: 'my-a', category: 'BIO' }],
+      categories: [{ id: 'my-category-a', name: 'Dreams' }],
+    });
+    await BackupManager.restoreBackup(createBackup({
+      [STORAGE_KEYS.PERSONAL_PROMPTS]: {
+        prompts: [{ id: 'my-b', category: 'my-category-b' }],
+        categories: [{ id: 'my-category-b', name: 'Travel' }],
+      },
+    }), 'merge');
+
+    expect(read(STORAGE_KEYS.PERSONAL_PROMPTS)).toEqual({
+      prompts: [{ id: 'my-a', category: 'BIO' }, { id: 'my-b', category: 'my-category-b' }],
+      categories: [{ id: 'my-category-a', name: 'Dreams' }, { id: 'my-category-b', name: 'Travel' }],
+    });
+  });
+
+  it('merges timed sessions by completion time and prompt', async () => {
+    const session = { promptId: 'BIO1', minutes: 10, completedAt: 1000 };
+    store(STORAGE_KEYS.SESSIONS, [session]);
+    await BackupManager.restoreBackup(createBackup({
+      [STORAGE_KEYS.SESSIONS]: [session, { promptId: 'BIO1', minutes: 5, completedAt: 2000 }],
+    }), 'merge');
+
+    expect(read(STORAGE_KEYS.SESSIONS)).toHaveLength(2);
+  });
+
+  it('merges activity by day, kind and prompt', async () => {
+    const viewed = { promptId: 'BIO1', kind: 'viewed', date: '2025-01-30' };
+    store(STORAGE_KEYS.ACTIVITY, [viewed]);
+    await BackupManager.restoreBackup(createBackup({
+      [STORAGE_KEYS.ACTIVITY]: [viewed, { promptId: 'BIO1', kind: 'wrote', date: '2025-01-30' }],
+    }), 'merge');
+
+    expect(read(STORAGE_KEYS.ACTIVITY)).toEqual([viewed, { promptId: 'BIO1', kind: 'wrote', date: '2025-01-30' }]);
+  });
+
+  it('lets the backup win for settings and keeps settings it does not have', async () => {
+    localStorage.setItem(STORAGE_KEYS.THEME, 'dark');
+    localStorage.setItem(STORAGE_KEYS.LANGUAGE, 'DE');
+    await BackupManager.restoreBackup(createBackup({ [STORAGE_KEYS.THEME]: 'light' }), 'merge');
+
+    expect(localStorage.getItem(STORAGE_KEYS.THEME)).toBe('light');
+    expect(localStorage.getItem(STORAGE_KEYS.LANGUAGE)).toBe('DE');
+  });
+
+  it('keeps the imported list if the stored one is broken', async () => {
+    localStorage.setItem(STORAGE_KEYS.FAVORITES, '{broken');
+    await BackupManager.restoreBackup(createBackup({ [STORAGE_KEYS.FAVORITES]: ['BIO1'] }), 'merge');
+
+    expect(read(STORAGE_KEYS.FAVORITES)).toEqual(['BIO1']);
+  });
+
+  it('clears all app data and journal entries before replacing', async () => {
+    store(STORAGE_KEYS.FAVORITES, ['BIO1']);
+    localStorage.setItem(STORAGE_KEYS.THEME, 'dark');
+    localStorage.setItem('other-app', 'kept');
+    const entry: JournalEntry = { promptId: 'BIO2', createdAt: 1, updatedAt: 2, text: 'Hello' };
+
+    await BackupManager.restoreBackup(createBackup({ [STORAGE_KEYS.FAVORITES]: ['WRK1'] }, [entry]), 'replace');
+
+    expect(read(STORAGE_KEYS.FAVORITES)).toEqual(['WRK1']);
+    expect(localStorage.getItem(STORAGE_KEYS.THEME)).toBeNull();
+    expect(localStorage.getItem('other-app')).toBe('kept');
+    expect(entryStore.clearEntries).toHaveBeenCalledOnce();
+    expect(entryStore.saveEntries).toHaveBeenCalledWith([entry]);
+  });
+
+  it('keeps journal entries when merging', async () => {
+    await BackupManager.restoreBackup(createBackup({}), 'merge');
+
+    expect(entryStore.clearEntries).not.toHaveBeenCalled();
+    expect(entryStore.saveEntries).not.toHaveBeenCalled();
+  });
+});
+
+describe('BackupManager.parseBackup', () => {
+  it('keeps only app-owned keys with string values and valid entries', () => {
+    const backup = BackupManager.parseBackup(JSON.stringify({
+      format: BACKUP.FORMAT,
+      version: BACKUP.VERSION,
+      exportedAt: '2025-01-31T08:00:00.000Z',
+      storage: { [STORAGE_KEYS.THEME]: 'dark', 'other-app': 'x', [STORAGE_KEYS.LANGUAGE]: 5 },
+      entries: [{ promptId: 'BIO1', createdAt: 1, updatedAt: 2, text: 'ok' }, { promptId: 'BIO2' }],
+    }));
+
+    expect(backup.storage).toEqual({ [STORAGE_KEYS.THEME]: 'dark' });
+    expect(backup.entries).toHaveLength(1);
+  });
+
+  it('rejects other files and newer versions', () => {
+    expect(() => BackupManager.parseBackup('not json')).toThrow();
+    expect(() => BackupManager.parseBackup(JSON.stringify({ format: 'other' }))).toThrow();
+    expect(() => BackupManager.parseBackup(JSON.stringify({
+      format: BACKUP.FORMAT, version: BACKUP.VERSION + 1, storage: {},
+    }))).toThrow();
+  });
+});
+
+describe('BackupManager.summarize', () => {
+  it('counts the settings and the items of every merged list', () => {
+    const summary = BackupManager.summarize(createBackup({
+      [STORAGE_KEYS.THEME]: 'dark',
+      [STORAGE_KEYS.FAVORITES]: ['BIO1', 'BIO2'],
+      [STORAGE_KEYS.PACKS]: [{ id: 'retros' }],
+      [STORAGE_KEYS.PERSONAL_PROMPTS]: { prompts: [{ id: 'my-a' }], categories: [] },
+      [STORAGE_KEYS.SESSIONS]: [],
+      [STORAGE_KEYS.ACTIVITY]: [{ promptId: 'BIO1', kind: 'viewed', date: '2025-01-30' }],
+    }));
+
+    expect(summary).toEqual({
+      exportedAt: '2025-01-31T08:00:00.000Z',
+      settings: 1,
+      favorites: 2,
+      packs: 1,
+      personalPrompts: 1,
+      sessions: 0,
+      activity: 1,
+      entries: 0,
+    });
+  });
+});
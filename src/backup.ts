@@ -0,0 +1,214 @@
+/**
+ * Export and import of all local user data as a single versioned JSON file
+ */
+
+import { BACKUP, STORAGE_KEYS } from './constants.ts';
+import { EntryStore } from './entry-store.ts';
+import { ActivityRecord, BackupData, BackupSummary, JournalEntry, PersonalLibrary, PromptPack, WritingSessionRecord } from './types.ts';
+
+export type RestoreMode = 'merge' | 'replace';
+
+// Every key in STORAGE_KEYS is app-owned, so new settings are part of backups automatically
+const APP_STORAGE_KEYS: string[] = Object.values(STORAGE_KEYS);
+
+// Combines the stored JSON of a key with the JSON from a backup
+type Merge = (existing: unknown, imported: unknown) => unknown;
+
+// Keys whose data is combined instead of overwritten when merging; every other key is a
+// setting that the backup wins
+const MERGES: { [key: string]: Merge } = {
+  [STORAGE_KEYS.FAVORITES]: mergeListsBy(promptId => String(promptId)),
+  [STORAGE_KEYS.PACKS]: mergeListsBy(pack => (pack as PromptPack).id),
+  [STORAGE_KEYS.PERSONAL_PROMPTS]: mergeLibraries,
+  [STORAGE_KEYS.SESSIONS]: mergeListsBy(item => {
+    const session = item as WritingSessionRecord;
+    return `${session.completedAt}:${session.promptId}`;
+  }),
+  [STORAGE_KEYS.ACTIVITY]: mergeListsBy(item => {
+    const record = item as ActivityRecord;
+    return `${record.date}:${record.kind}:${record.promptId}`;
+  }),
+};
+
+export class BackupManager {
+  /**
+   * Collects all app-owned localStorage keys and journal entries
+   * @returns The backup data ready to be serialized
+   */
+  static async createBackup(): Promise<BackupData> {
+    const storage: { [key: string]: string } = {};
+    APP_STORAGE_KEYS.forEach(key => {
+      const value = localStorage.getItem(key);
+      if (value !== null) {
+        storage[key] = value;
+      }
+    });
+
+    let entries: JournalEntry[] = [];
+    try {
+      entries = await EntryStore.getAllEntries();
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read journal entries for backup:', error);
+    }
+
+    return {
+      format: BACKUP.FORMAT,
+      version: BACKUP.VERSION,
+      exportedAt: new Date().toISOString(),
+      storage,
+      entries,
+    };
+  }
+
+  /**
+   * Parses and validates a backup file
+   * @param text - The contents of the backup file
+   * @throws Error if the file is no backup of this app or has an unsupported version
+   */
+  static parseBackup(text: string): BackupData {
+    let data: Partial<BackupData>;
+    try {
+      data = JSON.parse(text) as Partial<BackupData>;
+    } catch {
+      throw new Error('Backup file is not valid JSON');
+    }
+
+    if (!data || data.format !== BACKUP.FORMAT) {
+      throw new Error('File is not a journal prompts backup');
+    }
+    if (typeof data.version !== 'number' || data.version > BACKUP.VERSION) {
+      throw new Error(`Unsupported backup version: ${String(data.version)}`);
+    }
+    if (!data.storage || typeof data.storage !== 'object') {
+      throw new Error('Backup is missing settings data');
+    }
+
+    // Only accept app-owned keys with string values
+    const storage: { [key: string]: string } = {};
+    Object.entries(data.storage).forEach(([key, value]) => {
+      if (APP_STORAGE_KEYS.includes(key) && typeof value === 'string') {
+        storage[key] = value;
+      }
+    });
+
+    const entries = Array.isArray(data.entries)
+      ? data.entries.filter(entry =>
+        entry && typeof entry.promptId === 'string' && typeof entry.createdAt === 'number' &&
+        typeof entry.updatedAt === 'number' && typeof entry.text === 'string')
+      : [];
+
+    return {
+      format: BACKUP.FORMAT,
+      version: data.version,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      storage,
+      entries,
+    };
+  }
+
+  /**
+   * Summarizes a backup for the preview before importing
+   * @param backup - The parsed backup
+   */
+  static summarize(backup: BackupData): BackupSummary {
+    return {
+      exportedAt: backup.exportedAt,
+      settings: Object.keys(backup.storage).filter(key => !(key in MERGES)).length,
+      favorites: countItems(backup.storage[STORAGE_KEYS.FAVORITES]),
+      packs: countItems(backup.storage[STORAGE_KEYS.PACKS]),
+      personalPrompts: countItems(backup.storage[STORAGE_KEYS.PERSONAL_PROMPTS], 'prompts'),
+      sessions: countItems(backup.storage[STORAGE_KEYS.SESSIONS]),
+      activity: countItems(backup.storage[STORAGE_KEYS.ACTIVITY]),
+      entries: backup.entries.length,
+    };
+  }
+
+  /**
+   * Restores a backup
+   * @param backup - The parsed backup
+   * @param mode - Merge into the existing data or replace it completely
+   */
+  static async restoreBackup(backup: BackupData, mode: RestoreMode): Promise<void> {
+    if (mode === 'replace') {
+      APP_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+      await EntryStore.clearEntries();
+    }
+
+    Object.entries(backup.storage).forEach(([key, value]) => {
+      const existing = localStorage.getItem(key);
+      const merge = MERGES[key];
+      if (mode === 'merge' && existing !== null && merge) {
+        localStorage.setItem(key, this.mergeValues(existing, value, merge));
+      } else {
+        localStorage.setItem(key, value);
+      }
+    });
+
+    // Entries with the same prompt and creation time are overwritten by the backup
+    if (backup.entries.length > 0) {
+      await EntryStore.saveEntries(backup.entries);
+    }
+  }
+
+  /**
+   * Builds the file name for a backup, e.g. journal-prompts-backup-2025-01-31.json
+   */
+  static getFileName(backup: BackupData): string {
+    return `${BACKUP.FORMAT}-${backup.exportedAt.slice(0, 10)}.json`;
+  }
+
+  private static mergeValues(existing: string, imported: string, merge: Merge): string {
+    try {
+      return JSON.stringify(merge(JSON.parse(existing), JSON.parse(imported)));
+    } catch {
+      // Keep the imported value if the stored one is broken
+      return imported;
+    }
+  }
+}
+
+/**
+ * Counts the items of a stored JSON list
+ * @param value - The stored JSON, undefined if the backup does not have the key
+ * @param field - The field holding the list if the JSON is an object
+ */
+function countItems(value: string | undefined, field?: string): number {
+  try {
+    const parsed = JSON.parse(value || 'null') as unknown;
+    const list = field && parsed && typeof parsed === 'object' ? (parsed as { [field: string]: unknown })[field] : parsed;
+    return Array.isArray(list) ? list.length : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Creates a merge of JSON lists whose items are told apart by an identity. Items of the
+ * backup replace existing items with the same identity, the order of existing items is kept.
+ * @param identity - Gets the identity of an item, e.g. its ID
+ */
+function mergeListsBy(identity: (item: unknown) => string): Merge {
+  return (existing, imported) => {
+    if (!Array.isArray(existing) || !Array.isArray(imported)) {
+      return imported;
+    }
+    const merged = new Map<string, unknown>();
+    [...existing as unknown[], ...imported as unknown[]].forEach(item => merged.set(identity(item), item));
+    return [...merged.values()];
+  };
+}
+
+// The personal library holds two lists, both told apart by their IDs
+function mergeLibraries(existing: unknown, imported: unknown): unknown {
+  const mergeById = mergeListsBy(item => (item as { id: string }).id);
+  const existingLibrary = existing as Partial<PersonalLibrary> | null;
+  const importedLibrary = imported as Partial<PersonalLibrary> | null;
+  if (!existingLibrary || !importedLibrary) {
+    return imported;
+  }
+  return {
+    prompts: mergeById(existingLibrary.prompts ?? [], importedLibrary.prompts ?? []),
+    categories: mergeById(existingLibrary.categories ?? [], importedLibrary.categories ?? []),
+  };
+}
@@ -6,23 +6,82 @@
 export const STORAGE_KEYS = {
   LANGUAGE: 'journal-prompts-language',
   THEME: 'journal-prompts-theme',
+  SHUFFLE_BAG: 'journal-prompts-shuffle-bag',
+  SELECTION_STRATEGY: 'journal-prompts-selection-strategy',
+  DAILY_MODE: 'journal-prompts-daily-mode',
+  DAILY_TIMEZONE: 'journal-prompts-daily-timezone',
+  FAVORITES: 'journal-prompts-favorites',
+  FAVORITES_MODE: 'journal-prompts-favorites-mode',
+  WRITING_PAD: 'journal-prompts-writing-pad',
+  PACKS: 'journal-prompts-packs',
+  PERSONAL_PROMPTS: 'journal-prompts-personal-prompts',
+  PROGRAM_PROGRESS: 'journal-prompts-program-progress',
+  SESSION_MINUTES: 'journal-prompts-session-minutes',
+  SESSION_SOUND: 'journal-prompts-session-sound',
+  SESSIONS: 'journal-prompts-sessions',
+  ACTIVITY: 'journal-prompts-activity',
 } as const;
 
+// Name of the app in share previews, the same in every language
+export const APP_NAME = 'Journal Prompts';
+
 // Default values
 export const DEFAULTS = {
   LANGUAGE: 'EN',
   THEME: 'light',
+  SELECTION_STRATEGY: 'uniform-prompt',
+  DAILY_TIMEZONE: 'local',
+  SESSION_MINUTES: 10,
 } as const;
 
 // Available options
-export const AVAILABLE_LANGUAGES = ['EN', 'DE'] as const;
 export const AVAILABLE_THEMES = ['light', 'dark'] as const;
+// How a prompt is picked when no category is pinned
+export const AVAILABLE_SELECTION_STRATEGIES = ['uniform-prompt', 'uniform-category', 'least-recent-category'] as const;
+// Which calendar date decides the prompt of the day
+export const AVAILABLE_DAILY_TIMEZONES = ['local', 'utc'] as const;
+// Optional prompt metadata in journal-prompts.yaml
+export const AVAILABLE_PROMPT_DEPTHS = ['light', 'deep'] as const;
+export const AVAILABLE_TIMES_OF_DAY = ['morning', 'evening'] as const;
+// Durations of timed writing sessions in minutes
+export const AVAILABLE_SESSION_MINUTES = [5, 10, 15, 20, 30] as const;
+
+// Fallback chains for prompt content and UI strings, tried in order after the language itself.
+// Languages without an entry fall back to their base language (DE-CH → DE), then to DEFAULTS.LANGUAGE.
+export const LANGUAGE_FALLBACKS: { readonly [language: string]: readonly string[] } = {};
+
+// IDs of prompts written in the app, distinct from built-in (BIO3) and pack (team-retros:ONB1) IDs
+export const PERSONAL_PROMPTS = {
+  ID_PREFIX: 'my-',
+  CATEGORY_PREFIX: 'my-category-',
+} as const;
 
 // Timing constants (in milliseconds)
 export const TIMING = {
   STATUS_NOTIFICATION_DURATION: 2500,
   COPY_FEEDBACK_DURATION: 1000,
   SAFARI_REFLOW_DELAY: 0,
+  AUTOSAVE_DELAY: 500,
+  SESSION_TICK: 250,
+} as const;
+
+// Journaling statistics
+export const STATS = {
+  HEATMAP_WEEKS: 12,
+} as const;
+
+// Backup file format
+export const BACKUP = {
+  FORMAT: 'journal-prompts-backup',
+  VERSION: 1,
+} as const;
+
+// IndexedDB for journal entries
+export const INDEXED_DB = {
+  NAME: 'journal-prompts',
+  VERSION: 1,
+  ENTRIES_STORE: 'entries',
+  PROMPT_INDEX: 'promptId',
 } as const;
 
 // DOM selectors (for commonly used selectors)
@@ -43,12 +102,119 @@ export const ELEMENT_IDS = {
   THEME_SWITCHER: 'theme-switcher',
   STATUS_NOTIFICATION: 'status-notification',
   TOGGLE_PURPOSE_BTN: 'toggle-purpose-btn',
+  GO_DEEPER_BTN: 'go-deeper-btn',
+  PROMPT_FOLLOW_UPS: 'prompt-follow-ups',
   NEW_PROMPT_BTN: 'new-prompt-btn',
   COPY_LINK_BTN: 'copy-link-btn',
   PIN_BTN: 'pin-btn',
+  PREVIOUS_PROMPT_BTN: 'previous-prompt-btn',
+  FAVORITE_BTN: 'favorite-btn',
+  FAVORITES_PANEL: 'favorites-panel',
+  FAVORITES_TITLE: 'favorites-title',
+  FAVORITES_LIST: 'favorites-list',
+  FAVORITES_EMPTY: 'favorites-empty',
+  FAVORITES_MODE_BTN: 'favorites-mode-btn',
+  CLOSE_FAVORITES_BTN: 'close-favorites-btn',
+  SHOW_FAVORITES_BTN: 'show-favorites-btn',
+  FILTER_PANEL: 'filter-panel',
+  FILTER_TITLE: 'filter-title',
+  FILTER_TAGS: 'filter-tags',
+  FILTER_MINUTES: 'filter-minutes',
+  FILTER_DEPTH: 'filter-depth',
+  FILTER_TIME: 'filter-time',
+  FILTER_COUNT: 'filter-count',
+  CLEAR_FILTER_BTN: 'clear-filter-btn',
+  CLOSE_FILTER_BTN: 'close-filter-btn',
+  SHOW_FILTER_BTN: 'show-filter-btn',
+  PERSONAL_PANEL: 'personal-panel',
+  PERSONAL_TITLE: 'personal-title',
+  PERSONAL_LIST: 'personal-list',
+  PERSONAL_EMPTY: 'personal-empty',
+  NEW_PERSONAL_PROMPT_BTN: 'new-personal-prompt-btn',
+  CLOSE_PERSONAL_BTN: 'close-personal-btn',
+  SHOW_PERSONAL_BTN: 'show-personal-btn',
+  PROMPT_EDITOR: 'prompt-editor',
+  PROMPT_EDITOR_CATEGORY: 'prompt-editor-category',
+  PROMPT_EDITOR_NEW_CATEGORY: 'prompt-editor-new-category',
+  PROMPT_EDITOR_LANGUAGE: 'prompt-editor-language',
+  PROMPT_EDITOR_TEXT: 'prompt-editor-text',
+  PROMPT_EDITOR_PURPOSE: 'prompt-editor-purpose',
+  PROMPT_EDITOR_PREVIEW_TEXT: 'prompt-editor-preview-text',
+  PROMPT_EDITOR_PREVIEW_PURPOSE: 'prompt-editor-preview-purpose',
+  PROMPT_EDITOR_SAVE_BTN: 'prompt-editor-save-btn',
+  PROMPT_EDITOR_CANCEL_BTN: 'prompt-editor-cancel-btn',
+  PACKS_PANEL: 'packs-panel',
+  PACKS_TITLE: 'packs-title',
+  PACKS_LIST: 'packs-list',
+  PACKS_EMPTY: 'packs-empty',
+  ADD_PACK_BTN: 'add-pack-btn',
+  PACK_FILE_INPUT: 'pack-file-input',
+  CLOSE_PACKS_BTN: 'close-packs-btn',
+  SHOW_PACKS_BTN: 'show-packs-btn',
+  PROGRAMS_PANEL: 'programs-panel',
+  PROGRAMS_TITLE: 'programs-title',
+  PROGRAMS_LIST: 'programs-list',
+  PROGRAMS_EMPTY: 'programs-empty',
+  PROGRAM_PROGRESS: 'program-progress',
+  LEAVE_PROGRAM_BTN: 'leave-program-btn',
+  CLOSE_PROGRAMS_BTN: 'close-programs-btn',
+  SHOW_PROGRAMS_BTN: 'show-programs-btn',
+  PROGRAM_BANNER: 'program-banner',
+  PROGRAM_BANNER_TITLE: 'program-banner-title',
+  PROGRAM_DAY_TITLE: 'program-day-title',
+  PROGRAM_DAY_INTRO: 'program-day-intro',
+  COMPLETE_DAY_BTN: 'complete-day-btn',
+  SESSION_BTN: 'session-btn',
+  WRITING_SESSION: 'writing-session',
+  SESSION_SETUP: 'session-setup',
+  SESSION_MINUTES_SELECT: 'session-minutes',
+  SESSION_SOUND_INPUT: 'session-sound',
+  SESSION_SOUND_LABEL: 'session-sound-label',
+  SESSION_START_BTN: 'session-start-btn',
+  SESSION_RUNNING: 'session-running',
+  SESSION_TIME: 'session-time',
+  SESSION_PAUSE_BTN: 'session-pause-btn',
+  SESSION_STOP_BTN: 'session-stop-btn',
+  SESSION_SUMMARY: 'session-summary',
+  SESSION_SUMMARY_TEXT: 'session-summary-text',
+  SESSION_NEXT_BTN: 'session-next-btn',
+  SESSION_CLOSE_BTN: 'session-close-btn',
+  WROTE_BTN: 'wrote-btn',
+  STATS_PANEL: 'stats-panel',
+  STATS_TITLE: 'stats-title',
+  STATS_STREAKS: 'stats-streaks',
+  STATS_HEATMAP: 'stats-heatmap',
+  STATS_CATEGORIES_TITLE: 'stats-categories-title',
+  STATS_CATEGORIES: 'stats-categories',
+  STATS_EMPTY: 'stats-empty',
+  CLEAR_STATS_BTN: 'clear-stats-btn',
+  CLOSE_STATS_BTN: 'close-stats-btn',
+  SHOW_STATS_BTN: 'show-stats-btn',
+  WRITING_PAD: 'writing-pad',
+  WRITING_PAD_TEXT: 'writing-pad-text',
+  WRITING_PAD_PREVIEW: 'writing-pad-preview',
+  WRITING_PAD_ENTRIES: 'writing-pad-entries',
+  WRITING_PAD_PREVIEW_BTN: 'writing-pad-preview-btn',
+  WRITING_PAD_WORD_COUNT: 'writing-pad-word-count',
+  WRITING_PAD_SAVE_STATE: 'writing-pad-save-state',
+  WRITING_PAD_TOGGLE_BTN: 'writing-pad-toggle-btn',
+  EXPORT_DATA_BTN: 'export-data-btn',
+  IMPORT_DATA_BTN: 'import-data-btn',
+  IMPORT_FILE_INPUT: 'import-file-input',
+  IMPORT_PANEL: 'import-panel',
+  IMPORT_TITLE: 'import-title',
+  IMPORT_SUMMARY: 'import-summary',
+  IMPORT_MERGE_BTN: 'import-merge-btn',
+  IMPORT_REPLACE_BTN: 'import-replace-btn',
+  CLOSE_IMPORT_BTN: 'close-import-btn',
+  UPDATE_NOTICE: 'update-notice',
+  UPDATE_RELOAD_BTN: 'update-reload-btn',
+  PROMPT_LANGUAGE_NOTE: 'prompt-language-note',
   SETTINGS_TOGGLE: 'settings-toggle',
-  LANG_EN: 'lang-en',
-  LANG_DE: 'lang-de',
+  RESET_SELECTION_BTN: 'reset-selection-btn',
+  SELECTION_STRATEGY_SELECT: 'selection-strategy-select',
+  DAILY_MODE_BTN: 'daily-mode-btn',
+  DAILY_TIMEZONE_SELECT: 'daily-timezone-select',
   THEME_LIGHT: 'theme-light',
   THEME_DARK: 'theme-dark',
 } as const;
@@ -73,9 +239,18 @@ export const DATA_ATTRIBUTES = {
 
 // File paths and URLs
 export const PATHS = {
-  PROMPTS_FILE: './journal-prompts.yaml',
+  PROMPTS_DIR: './prompts/',
+  // Optional prompt files next to the app, read as they were before the build compiled them
+  YAML_PROMPTS: './journal-prompts.yaml',
+  LEGACY_PROMPTS_PREFIX: './prompts_',
   TRANSLATIONS_DIR: './translations/',
 } as const;
 
-export type Language = typeof AVAILABLE_LANGUAGES[number];
-export type Theme = typeof AVAILABLE_THEMES[number];
\ No newline at end of file
+// Upper-case language code (e.g. EN), discovered from the translation bundles (see languages.ts)
+export type Language = string;
+export type Theme = typeof AVAILABLE_THEMES[number];
+export type SelectionStrategy = typeof AVAILABLE_SELECTION_STRATEGIES[number];
+export type DailyTimezone = typeof AVAILABLE_DAILY_TIMEZONES[number];
+export type PromptDepth = typeof AVAILABLE_PROMPT_DEPTHS[number];
+export type TimeOfDay = typeof AVAILABLE_TIMES_OF_DAY[number];
+export type SessionMinutes = typeof AVAILABLE_SESSION_MINUTES[number];
\ No newline at end of file
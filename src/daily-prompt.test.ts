@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { getDailyPrompt, getDateKey } from './daily-prompt.ts';
+import { CategoryGroup, Prompt } from './types.ts';
+
+function createPrompt(id: string): Prompt {
+  return { id, category: id.replace(/\d+$/, ''), prompt: `Prompt ${id}`, purpose: '', language: 'EN' };
+}
+
+function createGroups(ids: string[]): CategoryGroup {
+  const groups: CategoryGroup = {};
+  ids.map(createPrompt).forEach(prompt => {
+    (groups[prompt.category] ??= []).push(prompt);
+  });
+  return groups;
+}
+
+const IDS = ['BIO1', 'BIO2', 'BIO3', 'WRK1', 'WRK2', 'FUN1', 'FUN2', 'FUN3'];
+const DATES = Array.from({ length: 30 }, (_, day) => `2025-03-${String(day + 1).padStart(2, '0')}`);
+
+describe('getDailyPrompt', () => {
+  it('picks the same prompt for a date whatever the order of the file', () => {
+    const reversed = createGroups([...IDS].reverse());
+    DATES.forEach(date => {
+      expect(getDailyPrompt(reversed, date)?.id).toBe(getDailyPrompt(createGroups(IDS), date)?.id);
+    });
+  });
+
+  it('changes the prompt from day to day', () => {
+    const picked = new Set(DATES.map(date => getDailyPrompt(createGroups(IDS), date)?.id));
+    expect(picked.size).toBeGreaterThan(1);
+  });
+
+  it('keeps every day whose prompt still wins when prompts are added', () => {
+    const groups = createGroups(IDS);
+    const extended = createGroups([...IDS, 'BIO4', 'NEW1']);
+    DATES.forEach(date => {
+      const after = getDailyPrompt(extended, date)?.id;
+      if (after !== 'BIO4' && after !== 'NEW1') {
+        expect(after).toBe(getDailyPrompt(groups, date)?.id);
+      }
+    });
+  });
+
+  it('picks nothing without prompts', () => {
+    expect(getDailyPrompt({}, '2025-03-01')).toBeNull();
+    expect(getDailyPrompt({ BIO: [] }, '2025-03-01')).toBeNull();
+  });
+});
+
+describe('getDateKey', () => {
+  it('formats the local or the UTC date', () => {
+    const date = new Date(Date.UTC(2025, 0, 5, 12));
+    expect(getDateKey(date, 'utc')).toBe('2025-01-05');
+    expect(getDateKey(new Date(2025, 8, 9, 23, 30), 'local')).toBe('2025-09-09');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Deterministic "prompt of the day" selection without a server
+ */
+
+import { type DailyTimezone } from './constants.ts';
+import { CategoryGroup, Prompt } from './types.ts';
+
+/**
+ * Gets the calendar date used to seed the daily prompt.
+ *
+ * @param date - The moment to get the date for
+ * @param timezone - Whether to use the local calendar date or the UTC date
+ * @returns The date as YYYY-MM-DD
+ */
+export function getDateKey(date: Date, timezone: DailyTimezone): string {
+  const year = timezone === 'utc' ? date.getUTCFullYear() : date.getFullYear();
+  const month = timezone === 'utc' ? date.getUTCMonth() : date.getMonth();
+  const day = timezone === 'utc' ? date.getUTCDate() : date.getDate();
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Picks the prompt of the day. Every prompt gets a score seeded by the date and
+ * its stable ID (e.g. BIO3) and the highest score wins (rendezvous hashing).
+ * Adding prompts to the file therefore only changes a day's prompt if the new
+ * prompt happens to win, and the order of the file does not matter at all.
+ *
+ * @param categoryGroups - All loaded prompts by category ID
+ * @param dateKey - The date as returned by getDateKey
+ * @returns The prompt of the day or null if no prompts are loaded
+ */
+export function getDailyPrompt(categoryGroups: CategoryGroup, dateKey: string): Prompt | null {
+  let bestPrompt: Prompt | null = null;
+  let bestScore = -1;
+
+  for (const prompts of Object.values(categoryGroups)) {
+    for (const prompt of prompts) {
+      const score = scoreKey(`${dateKey}:${prompt.id}`);
+      // Break the (unlikely) tie by ID so every client agrees
+      if (score > bestScore || (score === bestScore && bestPrompt && prompt.id < bestPrompt.id)) {
+        bestPrompt = prompt;
+        bestScore = score;
+      }
+    }
+  }
+
+  return bestPrompt;
+}
+
+/**
+ * Hashes a key to an unsigned 32-bit score (FNV-1a with a murmur3 finalizer
+ * for good mixing of similar keys such as consecutive dates).
+ */
+function scoreKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
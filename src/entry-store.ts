@@ -0,0 +1,108 @@
+/**
+ * IndexedDB storage for journal entries written in the app
+ */
+
+import { INDEXED_DB } from './constants.ts';
+import { JournalEntry } from './types.ts';
+
+export class EntryStore {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Saves an entry, replacing a stored entry with the same prompt ID and creation time
+   * @param entry - The entry to save
+   */
+  static async saveEntry(entry: JournalEntry): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(INDEXED_DB.ENTRIES_STORE, 'readwrite');
+    transaction.objectStore(INDEXED_DB.ENTRIES_STORE).put(entry);
+    await this.complete(transaction);
+  }
+
+  /**
+   * Gets all entries written for a prompt
+   * @param promptId - The prompt ID (e.g. BIO3)
+   * @returns The entries, newest first
+   */
+  static async getEntriesForPrompt(promptId: string): Promise<JournalEntry[]> {
+    const db = await this.open();
+    const transaction = db.transaction(INDEXED_DB.ENTRIES_STORE, 'readonly');
+    const index = transaction.objectStore(INDEXED_DB.ENTRIES_STORE).index(INDEXED_DB.PROMPT_INDEX);
+    const entries = await this.request<JournalEntry[]>(index.getAll(promptId));
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Gets all stored entries
+   * @returns The entries in key order
+   */
+  static async getAllEntries(): Promise<JournalEntry[]> {
+    const db = await this.open();
+    const transaction = db.transaction(INDEXED_DB.ENTRIES_STORE, 'readonly');
+    return this.request<JournalEntry[]>(transaction.objectStore(INDEXED_DB.ENTRIES_STORE).getAll());
+  }
+
+  /**
+   * Saves many entries in one transaction, e.g. when restoring a backup
+   * @param entries - The entries to save
+   */
+  static async saveEntries(entries: JournalEntry[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(INDEXED_DB.ENTRIES_STORE, 'readwrite');
+    const store = transaction.objectStore(INDEXED_DB.ENTRIES_STORE);
+    entries.forEach(entry => store.put(entry));
+    await this.complete(transaction);
+  }
+
+  /**
+   * Deletes all stored entries
+   */
+  static async clearEntries(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(INDEXED_DB.ENTRIES_STORE, 'readwrite');
+    transaction.objectStore(INDEXED_DB.ENTRIES_STORE).clear();
+    await this.complete(transaction);
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(INDEXED_DB.NAME, INDEXED_DB.VERSION);
+        request.onupgradeneeded = (): void => {
+          const store = request.result.createObjectStore(INDEXED_DB.ENTRIES_STORE, {
+            keyPath: ['promptId', 'createdAt'],
+          });
+          store.createIndex(INDEXED_DB.PROMPT_INDEX, 'promptId');
+        };
+        request.onsuccess = (): void => resolve(request.result);
+        request.onerror = (): void => reject(request.error ?? new Error('Failed to open IndexedDB'));
+      });
+
+      // Allow retrying after a failed open (e.g. private browsing)
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = (): void => resolve(request.result as T);
+      request.onerror = (): void => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+  }
+
+  private static complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = (): void => resolve();
+      transaction.onerror = (): void => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+      transaction.onabort = (): void => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+}
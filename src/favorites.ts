@@ -0,0 +1,91 @@
+/**
+ * Favorites manager for bookmarked prompts, stored by prompt ID in localStorage
+ */
+
+import { STORAGE_KEYS } from './constants.ts';
+
+export class FavoritesManager {
+  /**
+   * Gets all favorite prompt IDs in the order they were added
+   * @returns The favorite prompt IDs or an empty list if not set/invalid
+   */
+  static getFavorites(): string[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.FAVORITES);
+      if (stored) {
+        const parsed = JSON.parse(stored) as unknown;
+        if (Array.isArray(parsed)) {
+          return parsed.filter((id): id is string => typeof id === 'string');
+        }
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read favorites from localStorage:', error);
+    }
+    return [];
+  }
+
+  /**
+   * Checks if a prompt is a favorite
+   * @param promptId - The prompt ID to check
+   */
+  static isFavorite(promptId: string): boolean {
+    return this.getFavorites().includes(promptId);
+  }
+
+  /**
+   * Adds or removes a prompt from the favorites
+   * @param promptId - The prompt ID to toggle
+   * @returns Whether the prompt is a favorite afterwards
+   */
+  static toggleFavorite(promptId: string): boolean {
+    const favorites = this.getFavorites();
+    const isFavorite = favorites.includes(promptId);
+
+    this.saveFavorites(isFavorite ? favorites.filter(id => id !== promptId) : [...favorites, promptId]);
+    return !isFavorite;
+  }
+
+  /**
+   * Removes a prompt from the favorites
+   * @param promptId - The prompt ID to remove
+   */
+  static removeFavorite(promptId: string): void {
+    this.saveFavorites(this.getFavorites().filter(id => id !== promptId));
+  }
+
+  /**
+   * Checks if new prompts should be picked from the favorites only
+   */
+  static getFavoritesMode(): boolean {
+    try {
+      return localStorage.getItem(STORAGE_KEYS.FAVORITES_MODE) === 'true';
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read favorites mode from localStorage:', error);
+    }
+    return false;
+  }
+
+  /**
+   * Sets whether new prompts should be picked from the favorites only
+   * @param enabled - Whether favorites mode is enabled
+   */
+  static setFavoritesMode(enabled: boolean): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.FAVORITES_MODE, String(enabled));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save favorites mode to localStorage:', error);
+    }
+  }
+
+  private static saveFavorites(favorites: string[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(favorites));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save favorites to localStorage:', error);
+    }
+  }
+}
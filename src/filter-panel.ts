@@ -0,0 +1,166 @@
+/**
+ * Panel to narrow random selection by tags, writing time, depth and time of day
+ */
+
+import {
+  PromptFilter,
+  EMPTY_FILTER,
+  countPrompts,
+  filterGroups,
+  getFilterOptions
+} from './prompt-filter.ts';
+import { TranslationManager } from './translations.ts';
+import { replaceIcon } from './icons.ts';
+import { getElementById } from './utils.ts';
+import { ELEMENT_IDS, CSS_CLASSES, type PromptDepth, type TimeOfDay } from './constants.ts';
+import { CategoryGroup } from './types.ts';
+
+// Value of the options that don't narrow the selection
+const ANY_VALUE = '';
+
+export interface FilterPanelOptions {
+  getGroups: () => CategoryGroup; // All loaded prompts by category ID
+  onChange: (filter: PromptFilter) => void;
+}
+
+export class FilterPanel {
+  private panelEl: HTMLElement;
+  private titleEl: HTMLElement;
+  private tagsEl: HTMLElement;
+  private minutesSelectEl: HTMLSelectElement;
+  private depthSelectEl: HTMLSelectElement;
+  private timeSelectEl: HTMLSelectElement;
+  private countEl: HTMLElement;
+  private clearBtnEl: HTMLElement;
+  private closeBtnEl: HTMLElement;
+  private filter: PromptFilter = EMPTY_FILTER;
+
+  constructor(private options: FilterPanelOptions) {
+    this.panelEl = getElementById(ELEMENT_IDS.FILTER_PANEL, 'Filter panel');
+    this.titleEl = getElementById(ELEMENT_IDS.FILTER_TITLE, 'Filter title');
+    this.tagsEl = getElementById(ELEMENT_IDS.FILTER_TAGS, 'Filter tags');
+    this.minutesSelectEl = getElementById<HTMLSelectElement>(ELEMENT_IDS.FILTER_MINUTES, 'Filter minutes');
+    this.depthSelectEl = getElementById<HTMLSelectElement>(ELEMENT_IDS.FILTER_DEPTH, 'Filter depth');
+    this.timeSelectEl = getElementById<HTMLSelectElement>(ELEMENT_IDS.FILTER_TIME, 'Filter time of day');
+    this.countEl = getElementById(ELEMENT_IDS.FILTER_COUNT, 'Filter count');
+    this.clearBtnEl = getElementById(ELEMENT_IDS.CLEAR_FILTER_BTN, 'Clear filter button');
+    this.closeBtnEl = getElementById(ELEMENT_IDS.CLOSE_FILTER_BTN, 'Close filter button');
+    replaceIcon(this.closeBtnEl, 'close');
+
+    this.tagsEl.addEventListener('click', (event) => {
+      const tag = (event.target as HTMLElement).closest<HTMLButtonElement>('button[data-tag]')?.dataset.tag;
+      if (tag) {
+        const tags = this.filter.tags.includes(tag)
+          ? this.filter.tags.filter(other => other !== tag)
+          : [...this.filter.tags, tag];
+        this.update({ ...this.filter, tags });
+      }
+    });
+    this.minutesSelectEl.addEventListener('change', () => {
+      const value = this.minutesSelectEl.value;
+      this.update({ ...this.filter, maxMinutes: value === ANY_VALUE ? null : Number(value) });
+    });
+    this.depthSelectEl.addEventListener('change', () => {
+      const value = this.depthSelectEl.value;
+      this.update({ ...this.filter, depth: value === ANY_VALUE ? null : value as PromptDepth });
+    });
+    this.timeSelectEl.addEventListener('change', () => {
+      const value = this.timeSelectEl.value;
+      this.update({ ...this.filter, timeOfDay: value === ANY_VALUE ? null : value as TimeOfDay });
+    });
+    this.clearBtnEl.addEventListener('click', () => this.update(EMPTY_FILTER));
+    this.closeBtnEl.addEventListener('click', () => this.toggle());
+  }
+
+  /**
+   * Shows or hides the panel
+   */
+  toggle(): void {
+    const isHidden = this.panelEl.classList.toggle(CSS_CLASSES.HIDDEN);
+    if (!isHidden) {
+      this.render();
+    }
+  }
+
+  /**
+   * Shows a filter set elsewhere, e.g. read from the URL
+   * @param filter - The active filter
+   */
+  setFilter(filter: PromptFilter): void {
+    this.filter = filter;
+    if (!this.panelEl.classList.contains(CSS_CLASSES.HIDDEN)) {
+      this.render();
+    }
+  }
+
+  /**
+   * Updates all texts of the panel for the current language
+   */
+  updateUIText(): void {
+    this.titleEl.textContent = TranslationManager.get('filter.title');
+    this.clearBtnEl.textContent = TranslationManager.get('filter.clear');
+    this.closeBtnEl.title = TranslationManager.get('buttons.closePanel');
+    if (!this.panelEl.classList.contains(CSS_CLASSES.HIDDEN)) {
+      this.render();
+    }
+  }
+
+  private update(filter: PromptFilter): void {
+    this.filter = filter;
+    this.options.onChange(filter);
+    this.render();
+  }
+
+  private render(): void {
+    const groups = this.options.getGroups();
+    const filterOptions = getFilterOptions(groups);
+
+    // Keep tags from a link selectable even if no loaded prompt has them
+    const tags = [...new Set([...filterOptions.tags, ...this.filter.tags])];
+    this.tagsEl.innerHTML = '';
+    tags.forEach(tag => {
+      const button = document.createElement('button');
+      button.className = 'settings-action-btn';
+      button.dataset.tag = tag;
+      button.textContent = tag;
+      button.classList.toggle(CSS_CLASSES.ACTIVE, this.filter.tags.includes(tag));
+      this.tagsEl.appendChild(button);
+    });
+
+    this.renderSelect(
+      this.minutesSelectEl,
+      TranslationManager.get('filter.anyMinutes'),
+      filterOptions.minutes.map(minutes => [String(minutes), TranslationManager.get('filter.maxMinutes', { minutes })]),
+      this.filter.maxMinutes === null ? ANY_VALUE : String(this.filter.maxMinutes)
+    );
+    this.renderSelect(
+      this.depthSelectEl,
+      TranslationManager.get('filter.anyDepth'),
+      filterOptions.depths.map(depth => [depth, TranslationManager.get(`filter.depths.${depth}`)]),
+      this.filter.depth ?? ANY_VALUE
+    );
+    this.renderSelect(
+      this.timeSelectEl,
+      TranslationManager.get('filter.anyTime'),
+      filterOptions.timesOfDay.map(time => [time, TranslationManager.get(`filter.timesOfDay.${time}`)]),
+      this.filter.timeOfDay ?? ANY_VALUE
+    );
+
+    const count = countPrompts(filterGroups(groups, this.filter));
+    this.countEl.textContent = count > 0
+      ? TranslationManager.plural('filter.matches', count)
+      : TranslationManager.get('filter.noMatches');
+  }
+
+  private renderSelect(select: HTMLSelectElement, anyLabel: string, values: Array<[string, string]>, selected: string): void {
+    select.innerHTML = '';
+    select.appendChild(new Option(anyLabel, ANY_VALUE));
+    values.forEach(([value, label]) => select.appendChild(new Option(label, value)));
+    // A value from a link that no prompt has still shows as selected
+    if (selected !== ANY_VALUE && !values.some(([value]) => value === selected)) {
+      select.appendChild(new Option(selected, selected));
+    }
+    select.value = selected;
+    select.classList.toggle(CSS_CLASSES.HIDDEN, values.length === 0 && selected === ANY_VALUE);
+  }
+}
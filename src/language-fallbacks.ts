@@ -0,0 +1,30 @@
+/**
+ * Fallback chains between languages. Free of browser APIs, so the build can resolve
+ * prompt content along the same chains as the app.
+ */
+
+import { DEFAULTS, LANGUAGE_FALLBACKS, type Language } from './constants.ts';
+
+/**
+ * Gets the languages to try for prompt content and UI strings, e.g. DE-CH → DE → EN
+ * @param language - The requested language
+ * @returns The requested language followed by its fallbacks, without duplicates
+ */
+export function getFallbackChain(language: Language): Language[] {
+  const configured = LANGUAGE_FALLBACKS[language];
+  const fallbacks = configured ? [...configured] : getBaseLanguages(language);
+  return [...new Set([language, ...fallbacks, DEFAULTS.LANGUAGE])];
+}
+
+/**
+ * Checks if two language codes are the same language, ignoring regions (DE-CH and DE are)
+ */
+export function isSameLanguage(a: Language, b: Language): boolean {
+  return a.split('-')[0] === b.split('-')[0];
+}
+
+// DE-CH-VALAIS → DE-CH, DE
+function getBaseLanguages(language: Language): Language[] {
+  const subtags = language.split('-');
+  return subtags.slice(1).map((_, index) => subtags.slice(0, subtags.length - 1 - index).join('-'));
+}
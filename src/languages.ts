@@ -0,0 +1,134 @@
+/**
+ * Language registry discovered from the translation bundles and the prompt file.
+ * Adding a language only needs translations/<code>.json and its prompts in the YAML.
+ */
+
+import { DEFAULTS, type Language } from './constants.ts';
+import { getFallbackChain, isSameLanguage } from './language-fallbacks.ts';
+import type { Translations } from './translations.ts';
+
+// All translation bundles, found at build time and loaded on demand
+const TRANSLATION_BUNDLES = import.meta.glob<{ default: Translations }>('./translations/*.json');
+
+function bundleLanguage(path: string): Language {
+  return path.replace(/^.*\/([^/]+)\.json$/, '$1').toUpperCase();
+}
+
+const BUNDLE_LANGUAGES: Language[] = Object.keys(TRANSLATION_BUNDLES).map(bundleLanguage);
+
+export class LanguageRegistry {
+  private static promptLanguages: Language[] | null = null;
+
+  /**
+   * Gets the languages offered in the language switcher, default language first
+   * @returns Languages with UI translations and, once the prompts are loaded, prompt content
+   *   in the language itself or a variant of it (DE-CH is offered with DE prompts)
+   */
+  static getLanguages(): Language[] {
+    const languages = BUNDLE_LANGUAGES.filter(language =>
+      !this.promptLanguages || this.getFallbackChain(language).some(fallback =>
+        this.isSameLanguage(fallback, language) && this.promptLanguages?.includes(fallback)));
+    return languages.sort((a, b) => {
+      if (a === DEFAULTS.LANGUAGE || b === DEFAULTS.LANGUAGE) {
+        return a === DEFAULTS.LANGUAGE ? -1 : 1;
+      }
+      return a.localeCompare(b);
+    });
+  }
+
+  /**
+   * Checks if a language has UI translations
+   * @param language - The upper-case language code (e.g. DE)
+   */
+  static isSupported(language: string): boolean {
+    return BUNDLE_LANGUAGES.includes(language);
+  }
+
+  /**
+   * Gets the languages to try for prompt content and UI strings, e.g. DE-CH → DE → EN
+   * @param language - The requested language
+   * @returns The requested language followed by its fallbacks, without duplicates
+   */
+  static getFallbackChain(language: Language): Language[] {
+    return getFallbackChain(language);
+  }
+
+  /**
+   * Checks if two language codes are the same language, ignoring regions (DE-CH and DE are)
+   */
+  static isSameLanguage(a: Language, b: Language): boolean {
+    return isSameLanguage(a, b);
+  }
+
+  /**
+   * Restricts the offered languages to those with prompt content
+   * @param languages - The languages found in the prompt file
+   */
+  static setPromptLanguages(languages: Language[]): void {
+    this.promptLanguages = languages;
+  }
+
+  /**
+   * Loads the UI translations of a language
+   * @param language - The upper-case language code
+   * @throws Error if there is no translation bundle for the language
+   */
+  static async loadTranslations(language: Language): Promise<Translations> {
+    const path = Object.keys(TRANSLATION_BUNDLES).find(bundlePath => bundleLanguage(bundlePath) === language);
+    if (!path) {
+      throw new Error(`No translation bundle for language: ${language}`);
+    }
+    const bundle = await TRANSLATION_BUNDLES[path]();
+    return bundle.default;
+  }
+
+  /**
+   * Picks the first supported language from the browser preferences
+   * @returns The detected language or null if none is supported
+   */
+  static detectBrowserLanguage(): Language | null {
+    const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+    for (const tag of preferred) {
+      if (!tag) {
+        continue;
+      }
+      // Try the full tag (e.g. DE-CH) before its primary language (DE)
+      const language = tag.toUpperCase();
+      const primary = language.split('-')[0];
+      if (this.isSupported(language)) {
+        return language;
+      }
+      if (this.isSupported(primary)) {
+        return primary;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Gets the name of a language, e.g. "Englisch" for EN when displayed in DE
+   * @param language - The language to name
+   * @param displayLanguage - The language to name it in
+   */
+  static getLanguageName(language: Language, displayLanguage: Language): string {
+    try {
+      const names = new Intl.DisplayNames([displayLanguage.toLowerCase()], { type: 'language' });
+      return names.of(language.toLowerCase()) ?? language;
+    } catch {
+      return language;
+    }
+  }
+
+  /**
+   * Gets the Open Graph locale of a language, e.g. de_DE for DE
+   * @param language - The language code
+   */
+  static getOgLocale(language: Language): string {
+    try {
+      const locale = new Intl.Locale(language.toLowerCase()).maximize();
+      return locale.region ? `${locale.language}_${locale.region}` : locale.language;
+    } catch {
+      return language.toLowerCase();
+    }
+  }
+}
@@ -1,22 +1,54 @@
-import { loadPrompts, getRandomPrompt, parseMarkdown, findPromptById } from './yaml-parser.ts';
-import { CategoryGroup, Prompt } from './types.ts';
+import { loadPrompts, findPromptById, resolveCategoryId } from './prompt-loader.ts';
+import { parseMarkdown } from './markdown.ts';
+import { Prompt, CategoryGroup, CategoryLabels, PromptCollection, PromptHistoryState, PromptView, Programs, BackupData } from './types.ts';
 import { TranslationManager } from './translations.ts';
-import { replaceIcon } from './icons.ts';
+import { replaceIcon, createIcon } from './icons.ts';
 import { forceSafariCenteringRefresh, getElementById, querySelector } from './utils.ts';
 import { SettingsManager } from './settings.ts';
+import { LanguageRegistry } from './languages.ts';
+import { PromptSelector, FAVORITES_SCOPE, type PromptMatcher } from './prompt-selector.ts';
+import { FavoritesManager } from './favorites.ts';
+import { WritingPad } from './writing-pad.ts';
+import { WritingSession } from './writing-session.ts';
+import { FilterPanel } from './filter-panel.ts';
+import { ProgramManager } from './programs.ts';
+import { ProgramsPanel } from './programs-panel.ts';
+import { StatsManager } from './stats.ts';
+import { StatsPanel } from './stats-panel.ts';
+import { expandTemplate, formatChoices, parseChoices, pickChoices } from './prompt-template.ts';
 import {
+  PromptFilter,
+  EMPTY_FILTER,
+  isFilterActive,
+  matchesFilter,
+  readFilterParams,
+  writeFilterParams
+} from './prompt-filter.ts';
+import { PersonalPromptManager } from './personal-prompts.ts';
+import { PersonalPromptsPanel } from './personal-prompts-panel.ts';
+import { PackManager } from './packs.ts';
+import { PacksPanel } from './packs-panel.ts';
+import { PromptSourceRegistry } from './prompt-source-registry.ts';
+import { BUNDLED_SOURCE_ID } from './prompt-sources.ts';
+import { BackupManager, type RestoreMode } from './backup.ts';
+import { registerServiceWorker } from './pwa.ts';
+import { getDailyPrompt, getDateKey } from './daily-prompt.ts';
+import {
+  APP_NAME,
   TIMING,
   SELECTORS,
   ELEMENT_IDS,
   CSS_CLASSES,
   type Language,
-  type Theme
+  type Theme,
+  type SelectionStrategy,
+  type DailyTimezone
 } from './constants.ts';
 import './styles.css';
 
 
 class JournalPromptsApp {
-  private categoryGroups: CategoryGroup = {};
+  private promptCollection: PromptCollection = { groups: {}, labels: {}, aliases: {}, fingerprint: '', languages: [], programs: {} };
   private currentCategory: string = '';
   private currentPrompt: Prompt | null = null;
   private currentLanguage: Language = 'EN';
@@ -25,20 +57,66 @@ class JournalPromptsApp {
   private promptDisplayEl!: HTMLElement;
   private categorySelectEl!: HTMLSelectElement;
   private promptTextEl!: HTMLElement;
+  private promptLanguageNoteEl!: HTMLElement;
   private promptPurposeEl!: HTMLElement;
   private togglePurposeBtnEl!: HTMLElement;
+  private goDeeperBtnEl!: HTMLButtonElement;
+  private promptFollowUpsEl!: HTMLElement;
   private newPromptBtnEl!: HTMLElement;
   private copyLinkBtnEl!: HTMLElement;
   private pinBtnEl!: HTMLElement;
+  private previousPromptBtnEl!: HTMLButtonElement;
+  private favoriteBtnEl!: HTMLElement;
+  private wroteBtnEl!: HTMLElement;
+  private favoritesPanelEl!: HTMLElement;
+  private favoritesListEl!: HTMLElement;
+  private favoritesEmptyEl!: HTMLElement;
+  private favoritesModeBtnEl!: HTMLElement;
+  private closeFavoritesBtnEl!: HTMLElement;
+  private showFavoritesBtnEl!: HTMLElement;
+  private writingPadToggleBtnEl!: HTMLElement;
+  private writingPad!: WritingPad;
+  private writingSession!: WritingSession;
+  private filterPanel!: FilterPanel;
+  private showFilterBtnEl!: HTMLElement;
+  private promptFilter: PromptFilter = EMPTY_FILTER;
+  private personalPromptsPanel!: PersonalPromptsPanel;
+  private showPersonalBtnEl!: HTMLElement;
+  private packsPanel!: PacksPanel;
+  private programsPanel!: ProgramsPanel;
+  private showProgramsBtnEl!: HTMLElement;
+  private statsPanel!: StatsPanel;
+  private showStatsBtnEl!: HTMLElement;
+  private clearStatsBtnEl!: HTMLElement;
+  private showPacksBtnEl!: HTMLElement;
+  private exportDataBtnEl!: HTMLElement;
+  private importDataBtnEl!: HTMLElement;
+  private importFileInputEl!: HTMLInputElement;
+  private importPanelEl!: HTMLElement;
+  private importSummaryEl!: HTMLElement;
+  private importMergeBtnEl!: HTMLElement;
+  private importReplaceBtnEl!: HTMLElement;
+  private closeImportBtnEl!: HTMLElement;
+  private pendingBackup: BackupData | null = null;
   private languageSwitcherEl!: HTMLElement;
   private themeSwitcherEl!: HTMLElement;
   private statusNotificationEl!: HTMLElement;
   private statusMessageEl!: HTMLElement;
   private purposeVisible: boolean = false;
+  private followUpStep: number = 0; // Follow-up questions of the current prompt revealed so far
+  private templateChoices: number[] = []; // Picked alternatives of the current prompt's template
+  private currentProgramDay: { programId: string; day: number } | null = null; // Set if shown as a program day
+  private skippedProgramDay: { programId: string; day: number } | null = null; // Open day skipped this session
   private settingsVisible: boolean = false;
   private settingsContainerEl!: HTMLElement;
   private settingsToggleEl!: HTMLElement;
+  private resetSelectionBtnEl!: HTMLElement;
+  private selectionStrategySelectEl!: HTMLSelectElement;
+  private dailyModeBtnEl!: HTMLElement;
+  private dailyTimezoneSelectEl!: HTMLSelectElement;
   private wasOpenedWithDeepLink: boolean = false;
+  private wasOpenedWithLinkLanguage: boolean = false;
+  private historyIndex: number = -1;
 
   constructor() {
     try {
@@ -53,16 +131,99 @@ class JournalPromptsApp {
       // Get prompt elements
       this.promptTextEl = querySelector(SELECTORS.PROMPT_TEXT, 'Prompt text');
       this.promptPurposeEl = querySelector(SELECTORS.PROMPT_PURPOSE, 'Prompt purpose');
+      this.promptLanguageNoteEl = getElementById(ELEMENT_IDS.PROMPT_LANGUAGE_NOTE, 'Prompt language note');
+      this.promptFollowUpsEl = getElementById(ELEMENT_IDS.PROMPT_FOLLOW_UPS, 'Prompt follow-ups');
 
       // Get button elements
       this.togglePurposeBtnEl = getElementById(ELEMENT_IDS.TOGGLE_PURPOSE_BTN, 'Toggle purpose button');
+      this.goDeeperBtnEl = getElementById<HTMLButtonElement>(ELEMENT_IDS.GO_DEEPER_BTN, 'Go deeper button');
       this.newPromptBtnEl = getElementById(ELEMENT_IDS.NEW_PROMPT_BTN, 'New prompt button');
       this.copyLinkBtnEl = getElementById(ELEMENT_IDS.COPY_LINK_BTN, 'Copy link button');
       this.pinBtnEl = getElementById(ELEMENT_IDS.PIN_BTN, 'Pin button');
+      this.previousPromptBtnEl = getElementById<HTMLButtonElement>(ELEMENT_IDS.PREVIOUS_PROMPT_BTN, 'Previous prompt button');
+      this.favoriteBtnEl = getElementById(ELEMENT_IDS.FAVORITE_BTN, 'Favorite button');
+      this.wroteBtnEl = getElementById(ELEMENT_IDS.WROTE_BTN, 'Wrote button');
+
+      // Get favorites panel elements
+      this.favoritesPanelEl = getElementById(ELEMENT_IDS.FAVORITES_PANEL, 'Favorites panel');
+      this.favoritesListEl = getElementById(ELEMENT_IDS.FAVORITES_LIST, 'Favorites list');
+      this.favoritesEmptyEl = getElementById(ELEMENT_IDS.FAVORITES_EMPTY, 'Favorites empty message');
+      this.favoritesModeBtnEl = getElementById(ELEMENT_IDS.FAVORITES_MODE_BTN, 'Favorites mode button');
+      this.closeFavoritesBtnEl = getElementById(ELEMENT_IDS.CLOSE_FAVORITES_BTN, 'Close favorites button');
+      this.showFavoritesBtnEl = getElementById(ELEMENT_IDS.SHOW_FAVORITES_BTN, 'Show favorites button');
+
+      // Get writing pad elements
+      this.writingPad = new WritingPad();
+      this.writingPadToggleBtnEl = getElementById(ELEMENT_IDS.WRITING_PAD_TOGGLE_BTN, 'Writing pad toggle button');
+
+      // Get timed writing session elements
+      this.writingSession = new WritingSession({
+        getPromptId: (): string | null => this.currentPrompt?.id ?? null,
+        onNextPrompt: (): void => this.selectNewPrompt(),
+      });
+
+      // Get filter elements
+      this.filterPanel = new FilterPanel({
+        getGroups: (): CategoryGroup => this.promptCollection.groups,
+        onChange: (filter): void => this.setFilter(filter),
+      });
+      this.showFilterBtnEl = getElementById(ELEMENT_IDS.SHOW_FILTER_BTN, 'Show filter button');
+
+      // Get programs elements
+      this.programsPanel = new ProgramsPanel({
+        getPrograms: (): Programs => this.promptCollection.programs,
+        onOpenDay: (programId, day): void => {
+          this.wasOpenedWithDeepLink = false;
+          this.skippedProgramDay = null;
+          this.showProgramDay(programId, day);
+        },
+        onDayCompleted: (programId): void => this.onProgramDayCompleted(programId),
+        showStatus: (message): void => this.showStatus(message),
+      });
+      this.showProgramsBtnEl = getElementById(ELEMENT_IDS.SHOW_PROGRAMS_BTN, 'Show programs button');
+
+      // Get statistics elements
+      this.statsPanel = new StatsPanel({
+        getGroups: (): CategoryGroup => this.promptCollection.groups,
+        getLabels: (): CategoryLabels => this.promptCollection.labels,
+      });
+      this.showStatsBtnEl = getElementById(ELEMENT_IDS.SHOW_STATS_BTN, 'Show stats button');
+      this.clearStatsBtnEl = getElementById(ELEMENT_IDS.CLEAR_STATS_BTN, 'Clear stats button');
+
+      // Get personal prompts elements
+      this.personalPromptsPanel = new PersonalPromptsPanel({
+        getCategories: (): Array<[string, string]> => this.getEditableCategories(),
+        getPrompt: (promptId): Prompt | null => findPromptById(this.promptCollection.groups, promptId),
+        onOpen: (prompt): void => {
+          this.wasOpenedWithDeepLink = false;
+          this.displayPrompt(prompt);
+        },
+        onChange: (promptId): Promise<void> => this.reloadPrompts(promptId),
+        showStatus: (message): void => this.showStatus(message),
+      });
+      this.showPersonalBtnEl = getElementById(ELEMENT_IDS.SHOW_PERSONAL_BTN, 'Show personal prompts button');
+
+      // Get prompt packs elements
+      this.packsPanel = new PacksPanel(() => this.reloadPrompts(), message => this.showStatus(message));
+      this.showPacksBtnEl = getElementById(ELEMENT_IDS.SHOW_PACKS_BTN, 'Show packs button');
+
+      // Get backup elements
+      this.exportDataBtnEl = getElementById(ELEMENT_IDS.EXPORT_DATA_BTN, 'Export data button');
+      this.importDataBtnEl = getElementById(ELEMENT_IDS.IMPORT_DATA_BTN, 'Import data button');
+      this.importFileInputEl = getElementById<HTMLInputElement>(ELEMENT_IDS.IMPORT_FILE_INPUT, 'Import file input');
+      this.importPanelEl = getElementById(ELEMENT_IDS.IMPORT_PANEL, 'Import panel');
+      this.importSummaryEl = getElementById(ELEMENT_IDS.IMPORT_SUMMARY, 'Import summary');
+      this.importMergeBtnEl = getElementById(ELEMENT_IDS.IMPORT_MERGE_BTN, 'Import merge button');
+      this.importReplaceBtnEl = getElementById(ELEMENT_IDS.IMPORT_REPLACE_BTN, 'Import replace button');
+      this.closeImportBtnEl = getElementById(ELEMENT_IDS.CLOSE_IMPORT_BTN, 'Close import button');
 
       // Get settings elements
       this.settingsContainerEl = querySelector(SELECTORS.SETTINGS_CONTAINER, 'Settings container');
       this.settingsToggleEl = getElementById(ELEMENT_IDS.SETTINGS_TOGGLE, 'Settings toggle');
+      this.resetSelectionBtnEl = getElementById(ELEMENT_IDS.RESET_SELECTION_BTN, 'Reset selection button');
+      this.selectionStrategySelectEl = getElementById<HTMLSelectElement>(ELEMENT_IDS.SELECTION_STRATEGY_SELECT, 'Selection strategy select');
+      this.dailyModeBtnEl = getElementById(ELEMENT_IDS.DAILY_MODE_BTN, 'Daily mode button');
+      this.dailyTimezoneSelectEl = getElementById<HTMLSelectElement>(ELEMENT_IDS.DAILY_TIMEZONE_SELECT, 'Daily timezone select');
 
       // Replace all icons with Lucide icons
       this.replaceAllIcons();
@@ -81,6 +242,12 @@ class JournalPromptsApp {
     replaceIcon(this.pinBtnEl, 'pin');
     replaceIcon(this.copyLinkBtnEl, 'link');
     replaceIcon(this.togglePurposeBtnEl, 'question');
+    replaceIcon(this.goDeeperBtnEl, 'deeper');
+    replaceIcon(this.previousPromptBtnEl, 'back');
+    replaceIcon(this.favoriteBtnEl, 'star');
+    replaceIcon(this.wroteBtnEl, 'check');
+    replaceIcon(this.closeFavoritesBtnEl, 'close');
+    replaceIcon(this.closeImportBtnEl, 'close');
 
     // Replace hamburger menu icon
     const settingsToggle = document.getElementById('settings-toggle');
@@ -105,6 +272,8 @@ class JournalPromptsApp {
       this.initializeLanguage();
       this.initializeTheme();
       await this.initializeTranslations();
+      PersonalPromptManager.registerSource();
+      PackManager.registerSources();
       await this.loadAndDisplayCategories();
       this.updateUIText();
       this.setupEventListeners();
@@ -112,13 +281,17 @@ class JournalPromptsApp {
       this.setupThemeSwitcher();
       this.setupKeyboardShortcuts();
       
+      // Narrow random selection by the filter in the link (e.g. ?tags=gratitude)
+      this.applyFilter(readFilterParams(new URLSearchParams(window.location.search)));
+
       // Ensure prompts are loaded before handling deep links or loading initial prompt
-      if (Object.keys(this.categoryGroups).length > 0) {
-        // Check for deep link first
-        const hasDeepLink = this.handleDeepLink();
+      if (Object.keys(this.promptCollection.groups).length > 0) {
+        // Restore the prompt of this history entry after a reload, then check for deep link
+        const hasRestoredPrompt = this.restoreFromHistoryState(window.history.state as PromptHistoryState | null);
+        const hasDeepLink = hasRestoredPrompt || this.handleDeepLink();
         
-        // If no deep link, load random prompt from any category
-        if (!hasDeepLink) {
+        // If no deep link, start with the due day of a program, today's prompt or a random prompt
+        if (!hasDeepLink && !this.showPendingProgramDay() && !(SettingsManager.getDailyMode() && this.showDailyPrompt())) {
           this.loadRandomPromptFromAnyCategory();
         }
       } else {
@@ -128,6 +301,12 @@ class JournalPromptsApp {
       
       // Remove loading class to show the app gracefully
       this.finishLoading();
+
+      // Offer to install a pack shared via ?pack=<url>
+      await this.installLinkedPack();
+
+      // Cache the app and prompts for offline use
+      registerServiceWorker(() => this.showUpdateNotice());
     } catch (error) {
       // eslint-disable-next-line no-console
       console.error('Failed to initialize app:', error);
@@ -138,10 +317,23 @@ class JournalPromptsApp {
   }
 
   private initializeLanguage(): void {
+    // A language in the link (e.g. ?lang=de) wins over the stored preference for this visit
+    const linkLanguage = this.getLinkLanguage();
+    if (linkLanguage && linkLanguage !== SettingsManager.getCurrentLanguage()) {
+      SettingsManager.applyLanguageForVisit(linkLanguage);
+      this.wasOpenedWithLinkLanguage = true;
+    }
+
     this.currentLanguage = SettingsManager.getCurrentLanguage();
     document.documentElement.lang = this.currentLanguage.toLowerCase();
   }
 
+  private getLinkLanguage(): Language | null {
+    const params = new URLSearchParams(window.location.search);
+    const language = params.get('lang')?.toUpperCase();
+    return language && SettingsManager.isLanguageSupported(language) ? language : null;
+  }
+
   private initializeTheme(): void {
     this.currentTheme = SettingsManager.getCurrentTheme();
     SettingsManager.setTheme(this.currentTheme);
@@ -175,6 +367,103 @@ class JournalPromptsApp {
 
     // Update theme switcher tooltips
     this.updateThemeSwitcherTooltips();
+
+    // Update settings actions
+    this.resetSelectionBtnEl.textContent = TranslationManager.get('settings.resetSelection');
+    this.resetSelectionBtnEl.title = TranslationManager.get('settings.resetSelectionHint');
+    this.clearStatsBtnEl.textContent = TranslationManager.get('stats.clear');
+    this.clearStatsBtnEl.title = TranslationManager.get('stats.clearHint');
+    this.selectionStrategySelectEl.title = TranslationManager.get('settings.selectionStrategy');
+    this.selectionStrategySelectEl.querySelectorAll('option').forEach(option => {
+      option.textContent = TranslationManager.get(`settings.strategies.${option.value as SelectionStrategy}`);
+    });
+    this.showFavoritesBtnEl.textContent = TranslationManager.get('favorites.title');
+    this.showFilterBtnEl.textContent = TranslationManager.get('filter.title');
+    this.showFilterBtnEl.title = TranslationManager.get('filter.hint');
+    this.filterPanel.updateUIText();
+    this.showProgramsBtnEl.textContent = TranslationManager.get('programs.title');
+    this.showProgramsBtnEl.title = TranslationManager.get('programs.hint');
+    this.programsPanel.updateUIText();
+    this.showStatsBtnEl.textContent = TranslationManager.get('stats.title');
+    this.statsPanel.updateUIText();
+    this.showPersonalBtnEl.textContent = TranslationManager.get('personal.title');
+    this.personalPromptsPanel.updateUIText();
+    this.showPacksBtnEl.textContent = TranslationManager.get('packs.title');
+    this.packsPanel.updateUIText();
+    this.writingPadToggleBtnEl.textContent = TranslationManager.get('settings.writingPad');
+    this.writingPadToggleBtnEl.title = TranslationManager.get('settings.writingPadHint');
+    this.writingPad.updateUIText();
+    this.writingSession.updateUIText();
+    this.exportDataBtnEl.textContent = TranslationManager.get('backup.export');
+    this.exportDataBtnEl.title = TranslationManager.get('backup.exportHint');
+    this.importDataBtnEl.textContent = TranslationManager.get('backup.import');
+    this.importDataBtnEl.title = TranslationManager.get('backup.importHint');
+    this.dailyModeBtnEl.textContent = TranslationManager.get('settings.dailyMode');
+    this.dailyModeBtnEl.title = TranslationManager.get('settings.dailyModeHint');
+    this.dailyTimezoneSelectEl.title = TranslationManager.get('settings.dailyTimezone');
+    this.dailyTimezoneSelectEl.querySelectorAll('option').forEach(option => {
+      option.textContent = TranslationManager.get(`settings.dailyTimezones.${option.value as DailyTimezone}`);
+    });
+
+    // Update favorites panel
+    const favoritesTitle = document.getElementById(ELEMENT_IDS.FAVORITES_TITLE);
+    if (favoritesTitle) {
+      favoritesTitle.textContent = TranslationManager.get('favorites.title');
+    }
+    this.favoritesEmptyEl.textContent = TranslationManager.get('favorites.empty');
+    this.favoritesModeBtnEl.textContent = TranslationManager.get('favorites.randomMode');
+    this.favoritesModeBtnEl.title = TranslationManager.get('favorites.randomModeHint');
+    if (!this.favoritesPanelEl.classList.contains(CSS_CLASSES.HIDDEN)) {
+      this.renderFavorites();
+    }
+
+    // Update import panel
+    const importTitle = document.getElementById(ELEMENT_IDS.IMPORT_TITLE);
+    if (importTitle) {
+      importTitle.textContent = TranslationManager.get('backup.previewTitle');
+    }
+    this.importMergeBtnEl.textContent = TranslationManager.get('backup.merge');
+    this.importMergeBtnEl.title = TranslationManager.get('backup.mergeHint');
+    this.importReplaceBtnEl.textContent = TranslationManager.get('backup.replace');
+    this.importReplaceBtnEl.title = TranslationManager.get('backup.replaceHint');
+    if (this.pendingBackup) {
+      this.renderImportPreview(this.pendingBackup);
+    }
+
+    // Keep share previews in line with the displayed language
+    this.updateMetaTags();
+  }
+
+  private updateMetaTags(): void {
+    // The page title is a greeting, so previews keep the app name next to it
+    const title = `${TranslationManager.get('page.title')} · ${APP_NAME}`;
+    const description = TranslationManager.get('page.description');
+    const metaValues: Array<[string, string]> = [
+      ['meta[name="title"]', title],
+      ['meta[name="description"]', description],
+      ['meta[property="og:title"]', title],
+      ['meta[property="og:description"]', description],
+      ['meta[property="og:locale"]', LanguageRegistry.getOgLocale(this.currentLanguage)],
+      ['meta[property="og:url"]', window.location.href],
+      ['meta[property="twitter:title"]', title],
+      ['meta[property="twitter:description"]', description],
+      ['meta[property="twitter:url"]', window.location.href],
+    ];
+
+    metaValues.forEach(([selector, content]) => {
+      document.querySelector(selector)?.setAttribute('content', content);
+    });
+
+    // Announce the other languages as alternate locales
+    document.querySelectorAll('meta[property="og:locale:alternate"]').forEach(meta => meta.remove());
+    LanguageRegistry.getLanguages()
+      .filter(language => language !== this.currentLanguage)
+      .forEach(language => {
+        const meta = document.createElement('meta');
+        meta.setAttribute('property', 'og:locale:alternate');
+        meta.setAttribute('content', LanguageRegistry.getOgLocale(language));
+        document.head.appendChild(meta);
+      });
   }
 
   private updateSelectPlaceholder(): void {
@@ -191,37 +480,70 @@ class JournalPromptsApp {
       : TranslationManager.get('buttons.showPurpose');
 
     // Update other button tooltips
-    this.newPromptBtnEl.title = this.isPinned 
-      ? TranslationManager.get('buttons.newPrompt')
-      : TranslationManager.get('buttons.newPromptFromAnyCategory');
+    if (this.isFavoritesModeActive()) {
+      this.newPromptBtnEl.title = TranslationManager.get('buttons.newPromptFromFavorites');
+    } else {
+      this.newPromptBtnEl.title = this.isPinned
+        ? TranslationManager.get('buttons.newPrompt')
+        : TranslationManager.get('buttons.newPromptFromAnyCategory');
+    }
     this.copyLinkBtnEl.title = TranslationManager.get('buttons.copyLink');
+    this.goDeeperBtnEl.title = TranslationManager.get('buttons.goDeeper');
+    this.previousPromptBtnEl.title = TranslationManager.get('buttons.previousPrompt');
     
     // Update pin button tooltip and aria-label
     this.pinBtnEl.title = this.isPinned 
       ? TranslationManager.get('buttons.unpinCategory')
       : TranslationManager.get('buttons.pinCategory');
     this.pinBtnEl.setAttribute('aria-label', TranslationManager.get('buttons.pinCategory'));
+
+    // Update favorite button tooltip based on the current prompt
+    this.favoriteBtnEl.title = this.currentPrompt && FavoritesManager.isFavorite(this.currentPrompt.id)
+      ? TranslationManager.get('buttons.removeFavorite')
+      : TranslationManager.get('buttons.addFavorite');
+    this.wroteBtnEl.title = this.currentPrompt && StatsManager.hasWrittenToday(this.currentPrompt.id)
+      ? TranslationManager.get('buttons.unmarkWritten')
+      : TranslationManager.get('buttons.markWritten');
+    this.closeFavoritesBtnEl.title = TranslationManager.get('buttons.closePanel');
+    this.closeImportBtnEl.title = TranslationManager.get('buttons.closePanel');
   }
 
   private updateLanguageSwitcherTooltips(): void {
-    const enButton = document.getElementById('lang-en') as HTMLElement;
-    const deButton = document.getElementById('lang-de') as HTMLElement;
-    
-    if (enButton) {
-      enButton.title = TranslationManager.get('buttons.switchToEnglish');
-    }
-    if (deButton) {
-      deButton.title = TranslationManager.get('buttons.switchToGerman');
-    }
+    const langButtons = this.languageSwitcherEl.querySelectorAll<HTMLButtonElement>(SELECTORS.LANG_BTN);
+    langButtons.forEach(button => {
+      const language = button.dataset.lang;
+      if (language) {
+        const name = LanguageRegistry.getLanguageName(language, this.currentLanguage);
+        button.title = TranslationManager.get('buttons.switchLanguage', { language: name });
+      }
+    });
   }
 
   private async loadAndDisplayCategories(): Promise<void> {
-    this.categoryGroups = await loadPrompts(this.currentLanguage);
+    this.promptCollection = await loadPrompts(LanguageRegistry.getFallbackChain(this.currentLanguage));
+    PromptSelector.initialize(this.promptCollection.fingerprint);
+    LanguageRegistry.setPromptLanguages(this.promptCollection.languages);
+    this.renderLanguageSwitcher();
     this.populateSelect();
   }
 
+  private renderLanguageSwitcher(): void {
+    this.languageSwitcherEl.innerHTML = '';
+
+    LanguageRegistry.getLanguages().forEach(language => {
+      const button = document.createElement('button');
+      button.className = 'lang-btn';
+      button.dataset.lang = language;
+      button.textContent = language;
+      this.languageSwitcherEl.appendChild(button);
+    });
+
+    this.updateLanguageButtons();
+    this.updateLanguageSwitcherTooltips();
+  }
+
   private populateSelect(): void {
-    const categories = Object.keys(this.categoryGroups);
+    const categoryIds = Object.keys(this.promptCollection.groups);
 
     // Clear existing options (except placeholder)
     const placeholder = this.categorySelectEl.querySelector('option[value=""]');
@@ -232,12 +554,36 @@ class JournalPromptsApp {
       this.categorySelectEl.appendChild(placeholder);
     }
 
-    // Add category options
-    categories.forEach(category => {
+    // Categories of installed packs are grouped under the pack name, personal categories under their own label
+    const optionGroups = new Map<string, HTMLOptGroupElement>();
+    PromptSourceRegistry.getDiagnostics()
+      .filter(source => PackManager.isPackSource(source.sourceId))
+      .forEach(source => {
+        const group = document.createElement('optgroup');
+        group.label = source.label;
+        source.categories.forEach(categoryId => optionGroups.set(categoryId, group));
+      });
+    const personalGroup = document.createElement('optgroup');
+    personalGroup.label = TranslationManager.get('personal.title');
+    categoryIds
+      .filter(categoryId => PersonalPromptManager.isPersonalCategory(categoryId))
+      .forEach(categoryId => optionGroups.set(categoryId, personalGroup));
+
+    // Add category options, keyed by ID and labelled in the current language
+    categoryIds.forEach(categoryId => {
       const option = document.createElement('option');
-      option.value = category;
-      option.textContent = category;
-      this.categorySelectEl.appendChild(option);
+      option.value = categoryId;
+      option.textContent = this.promptCollection.labels[categoryId] || categoryId;
+      const group = optionGroups.get(categoryId);
+      if (group) {
+        // Add each group once, where its first category goes
+        if (group.parentElement !== this.categorySelectEl) {
+          this.categorySelectEl.appendChild(group);
+        }
+        group.appendChild(option);
+      } else {
+        this.categorySelectEl.appendChild(option);
+      }
     });
 
     // Force Safari iOS to re-apply text centering after populating options
@@ -256,49 +602,302 @@ class JournalPromptsApp {
 
   private selectCategory(category: string): void {
     this.currentCategory = category;
-    const prompts = this.categoryGroups[category];
-    const selectedPrompt = getRandomPrompt(prompts);
-    this.displayPrompt(selectedPrompt);
+    // Narrow the pinned category by the filter as long as any of its prompts match
+    const prompts = this.promptCollection.groups[category] ?? [];
+    const selectedPrompt = PromptSelector.draw(category, prompts, this.currentPrompt?.id, this.getPromptMatcher(prompts));
+    if (selectedPrompt) {
+      this.displayPrompt(selectedPrompt);
+      this.showFilterIgnoredNotice(prompts);
+    } else {
+      // The category is gone, e.g. together with its pack
+      this.loadRandomPromptFromAnyCategory();
+    }
   }
 
   private loadRandomPromptFromAnyCategory(): void {
-    // Get all prompts from all categories
-    const allPrompts: Prompt[] = [];
-    Object.values(this.categoryGroups).forEach(categoryPrompts => {
-      allPrompts.push(...categoryPrompts);
-    });
-
-    if (allPrompts.length > 0) {
-      const randomPrompt = getRandomPrompt(allPrompts);
+    // Pick from all categories using the user's selection strategy
+    const groups = this.promptCollection.groups;
+    const allPrompts = Object.values(groups).flat();
+    const randomPrompt = PromptSelector.drawFromAnyCategory(
+      groups,
+      SettingsManager.getSelectionStrategy(),
+      this.currentPrompt?.id,
+      this.getPromptMatcher(allPrompts)
+    );
+
+    if (randomPrompt) {
       this.currentCategory = randomPrompt.category;
       this.displayPrompt(randomPrompt);
+      this.showFilterIgnoredNotice(allPrompts);
     }
   }
 
+  private showDailyPrompt(timezone: DailyTimezone = SettingsManager.getDailyTimezone()): boolean {
+    const dateKey = getDateKey(new Date(), timezone);
+    const prompt = getDailyPrompt(this.getSharedGroups(), dateKey);
+    if (!prompt) {
+      return false;
+    }
+
+    this.setPinned(false);
+    this.currentCategory = prompt.category;
+    // The first alternatives of a templated prompt, so everyone gets the same wording
+    this.displayPrompt(prompt, true, { choices: [] });
+    this.showStatus(TranslationManager.get('messages.dailyPrompt'));
+    return true;
+  }
+
+  // Lets the prompts matching the filter through, or all prompts if none of them match
+  private getPromptMatcher(prompts: Prompt[]): PromptMatcher {
+    const matches = (prompt: Prompt): boolean => matchesFilter(prompt, this.promptFilter);
+    return prompts.some(matches) ? matches : (): boolean => true;
+  }
+
+  // Tells the user when the filter matches none of the prompts, so they came from all of them
+  private showFilterIgnoredNotice(prompts: Prompt[]): void {
+    if (isFilterActive(this.promptFilter) && !prompts.some(prompt => matchesFilter(prompt, this.promptFilter))) {
+      this.showStatus(TranslationManager.get('filter.noMatches'));
+    }
+  }
+
+  private setFilter(filter: PromptFilter): void {
+    this.applyFilter(filter);
+
+    // Keep the filter in the URL so reloads and shared links use it
+    if (this.wasOpenedWithDeepLink && this.currentPrompt) {
+      this.updateUrl(this.currentPrompt);
+    } else {
+      window.history.replaceState(window.history.state, '', this.buildFilterUrl());
+    }
+  }
+
+  private applyFilter(filter: PromptFilter): void {
+    this.promptFilter = filter;
+    this.filterPanel.setFilter(filter);
+    this.showFilterBtnEl.classList.toggle(CSS_CLASSES.ACTIVE, isFilterActive(filter));
+  }
+
+  private buildFilterUrl(): string {
+    const params = new URLSearchParams();
+    writeFilterParams(params, this.promptFilter);
+    const query = params.toString();
+    return `${window.location.pathname}${query ? `?${query}` : ''}`;
+  }
+
+  // Only the built-in prompts, without packs and personal prompts, so everyone gets the same prompt of the day
+  private getSharedGroups(): CategoryGroup {
+    const bundledPromptIds = new Set(PromptSourceRegistry.getDiagnostics()
+      .filter(source => source.sourceId === BUNDLED_SOURCE_ID)
+      .flatMap(source => source.promptIds));
+
+    const groups: CategoryGroup = {};
+    Object.entries(this.promptCollection.groups).forEach(([categoryId, prompts]) => {
+      const shared = prompts.filter(prompt => bundledPromptIds.has(prompt.id));
+      if (shared.length > 0) {
+        groups[categoryId] = shared;
+      }
+    });
+    return groups;
+  }
+
+  // Built-in and personal categories, for personal prompts; pack categories disappear with their pack
+  private getEditableCategories(): Array<[string, string]> {
+    const packCategories = new Set(PromptSourceRegistry.getDiagnostics()
+      .filter(source => PackManager.isPackSource(source.sourceId))
+      .flatMap(source => source.categories));
+
+    return Object.keys(this.promptCollection.groups)
+      .filter(categoryId => !packCategories.has(categoryId))
+      .map(categoryId => [categoryId, this.promptCollection.labels[categoryId] || categoryId]);
+  }
+
   private selectNewPrompt(): void {
-    // When clicking reload button, reset deep link state and clean URL
+    // When clicking reload button, reset deep link state so the new entry gets a clean URL
     this.wasOpenedWithDeepLink = false;
-    this.clearUrl();
 
-    if (this.isPinned && this.currentCategory) {
-      // Get new prompt from current category only
-      const prompts = this.categoryGroups[this.currentCategory];
-      let newPrompt = getRandomPrompt(prompts);
+    // While in a program its open day comes first; asking again while it's shown skips it for
+    // this session, until it's done or opened from the programs panel
+    const pendingDay = this.getPendingProgramDay();
+    const isSameDay = (programDay: { programId: string; day: number } | null): boolean =>
+      !!pendingDay && programDay?.programId === pendingDay.programId && programDay.day === pendingDay.day;
+    if (isSameDay(this.currentProgramDay)) {
+      this.skippedProgramDay = pendingDay;
+    }
+    if (pendingDay && !isSameDay(this.skippedProgramDay) && this.showProgramDay(pendingDay.programId, pendingDay.day)) {
+      return;
+    }
 
-      // Ensure we don't show the same prompt twice in a row if there are multiple prompts
-      if (prompts.length > 1 && this.currentPrompt) {
-        while (newPrompt.prompt === this.currentPrompt.prompt) {
-          newPrompt = getRandomPrompt(prompts);
-        }
-      }
+    if (this.isFavoritesModeActive()) {
+      // Get new prompt from the favorites only
+      const favorites = this.getFavoritePrompts();
+      const newPrompt = PromptSelector.draw(FAVORITES_SCOPE, favorites, this.currentPrompt?.id);
 
-      this.displayPrompt(newPrompt);
+      if (newPrompt) {
+        this.displayPrompt(newPrompt);
+      }
+    } else if (this.isPinned && this.currentCategory && this.promptCollection.groups[this.currentCategory]) {
+      // Get new prompt from current category only, the shuffle bag prevents repeats
+      const prompts = this.promptCollection.groups[this.currentCategory];
+      const matches = this.getPromptMatcher(prompts);
+      const newPrompt = PromptSelector.draw(this.currentCategory, prompts, this.currentPrompt?.id, matches);
+
+      if (newPrompt) {
+        this.displayPrompt(newPrompt);
+        this.showFilterIgnoredNotice(prompts);
+      }
     } else {
       // Get random prompt from any category
       this.loadRandomPromptFromAnyCategory();
     }
   }
 
+  // The next day of the program the user is enrolled in, missed days first
+  private getPendingProgramDay(): { programId: string; day: number } | null {
+    const progress = ProgramManager.getProgress();
+    const program = progress ? this.promptCollection.programs[progress.programId] : undefined;
+    if (!progress || !program) {
+      return null;
+    }
+    const day = ProgramManager.getPendingDay(progress, program);
+    return day === null ? null : { programId: program.id, day };
+  }
+
+  private showPendingProgramDay(): boolean {
+    const pendingDay = this.getPendingProgramDay();
+    return !!pendingDay && this.showProgramDay(pendingDay.programId, pendingDay.day);
+  }
+
+  private showProgramDay(programId: string, day: number, view: PromptView = {}): boolean {
+    const programDay = this.promptCollection.programs[programId]?.days[day];
+    const prompt = programDay ? findPromptById(this.promptCollection.groups, programDay.promptId) : null;
+    if (!prompt) {
+      return false;
+    }
+
+    this.currentCategory = prompt.category;
+    this.displayPrompt(prompt, true, { ...view, programId, programDay: day });
+    return true;
+  }
+
+  private onProgramDayCompleted(programId: string): void {
+    const program = this.promptCollection.programs[programId];
+    const progress = ProgramManager.getProgress();
+    if (!program || !progress) {
+      return;
+    }
+
+    this.skippedProgramDay = null;
+    if (ProgramManager.isFinished(progress, program)) {
+      this.showStatus(TranslationManager.get('messages.programFinished'));
+    } else if (!this.showPendingProgramDay()) {
+      this.showStatus(TranslationManager.get('messages.programDayDone'));
+    }
+  }
+
+  private getFavoritePrompts(): Prompt[] {
+    // Skip favorites whose prompt no longer exists
+    return FavoritesManager.getFavorites()
+      .map(id => findPromptById(this.promptCollection.groups, id))
+      .filter((prompt): prompt is Prompt => prompt !== null);
+  }
+
+  private isFavoritesModeActive(): boolean {
+    return FavoritesManager.getFavoritesMode() && this.getFavoritePrompts().length > 0;
+  }
+
+  private toggleFavorite(): void {
+    if (!this.currentPrompt) {
+      return;
+    }
+
+    const isFavorite = FavoritesManager.toggleFavorite(this.currentPrompt.id);
+    this.updateFavoriteButton();
+    this.showStatus(TranslationManager.get(isFavorite ? 'messages.favoriteAdded' : 'messages.favoriteRemoved'));
+
+    if (!this.favoritesPanelEl.classList.contains(CSS_CLASSES.HIDDEN)) {
+      this.renderFavorites();
+    }
+  }
+
+  private toggleWritten(): void {
+    if (!this.currentPrompt) {
+      return;
+    }
+
+    const isMarked = StatsManager.toggleWrote(this.currentPrompt.id);
+    this.updateWrittenButton();
+    this.showStatus(TranslationManager.get(isMarked ? 'messages.writtenMarked' : 'messages.writtenUnmarked'));
+    this.statsPanel.refresh();
+  }
+
+  private updateWrittenButton(): void {
+    this.wroteBtnEl.classList.toggle(CSS_CLASSES.ACTIVE, !!this.currentPrompt && StatsManager.hasWrittenToday(this.currentPrompt.id));
+    this.updateButtonTooltips();
+  }
+
+  private updateFavoriteButton(): void {
+    if (this.currentPrompt && FavoritesManager.isFavorite(this.currentPrompt.id)) {
+      this.favoriteBtnEl.classList.add(CSS_CLASSES.ACTIVE);
+    } else {
+      this.favoriteBtnEl.classList.remove(CSS_CLASSES.ACTIVE);
+    }
+    this.updateButtonTooltips();
+  }
+
+  private toggleFavoritesPanel(): void {
+    const isHidden = this.favoritesPanelEl.classList.toggle(CSS_CLASSES.HIDDEN);
+    if (!isHidden) {
+      this.renderFavorites();
+    }
+  }
+
+  private renderFavorites(): void {
+    const favorites = this.getFavoritePrompts();
+    this.favoritesListEl.innerHTML = '';
+    this.favoritesEmptyEl.classList.toggle(CSS_CLASSES.HIDDEN, favorites.length > 0);
+
+    // Render every favorite in the current language
+    favorites.forEach(prompt => {
+      const item = document.createElement('li');
+      item.className = 'panel-list-item';
+
+      const openBtn = document.createElement('button');
+      openBtn.className = 'panel-list-text';
+      openBtn.innerHTML = parseMarkdown(expandTemplate(prompt.prompt, []).text);
+      openBtn.addEventListener('click', () => {
+        this.wasOpenedWithDeepLink = false;
+        this.displayPrompt(prompt);
+      });
+
+      const category = document.createElement('span');
+      category.className = 'panel-list-meta';
+      category.textContent = this.promptCollection.labels[prompt.category] || prompt.category;
+
+      const removeBtn = document.createElement('button');
+      removeBtn.className = 'panel-icon-btn';
+      removeBtn.title = TranslationManager.get('buttons.removeFavorite');
+      removeBtn.appendChild(createIcon('close'));
+      removeBtn.addEventListener('click', () => {
+        FavoritesManager.removeFavorite(prompt.id);
+        this.updateFavoriteButton();
+        this.renderFavorites();
+      });
+
+      item.append(openBtn, category, removeBtn);
+      this.favoritesListEl.appendChild(item);
+    });
+
+    this.favoritesModeBtnEl.classList.toggle(CSS_CLASSES.ACTIVE, FavoritesManager.getFavoritesMode());
+  }
+
+  private toggleFavoritesMode(): void {
+    const enabled = !FavoritesManager.getFavoritesMode();
+    FavoritesManager.setFavoritesMode(enabled);
+    this.favoritesModeBtnEl.classList.toggle(CSS_CLASSES.ACTIVE, enabled);
+    this.updateButtonTooltips();
+    this.showStatus(TranslationManager.get(enabled ? 'messages.favoritesModeOn' : 'messages.favoritesModeOff'));
+  }
+
   private setPinned(pinned: boolean): void {
     this.isPinned = pinned;
     if (pinned) {
@@ -307,6 +906,7 @@ class JournalPromptsApp {
       this.pinBtnEl.classList.remove(CSS_CLASSES.PINNED);
     }
     this.updateButtonTooltips();
+    this.updateHistoryPinState();
   }
 
   private togglePin(): void {
@@ -320,32 +920,91 @@ class JournalPromptsApp {
     }
   }
 
-  private displayPrompt(prompt: Prompt): void {
+  private displayPrompt(prompt: Prompt, recordHistory: boolean = true, view: PromptView = {}): void {
     this.currentPrompt = prompt;
     this.categorySelectEl.value = prompt.category;
-    this.promptTextEl.innerHTML = parseMarkdown(prompt.prompt);
+    // Templated prompts keep the wording of a link or history entry, others get new alternatives
+    const expansion = expandTemplate(prompt.prompt, view.choices ?? pickChoices(prompt.prompt));
+    this.templateChoices = expansion.choices;
+    this.promptTextEl.innerHTML = parseMarkdown(expansion.text);
     this.promptPurposeEl.textContent = prompt.purpose;
+    // The program day only applies if it still refers to this prompt
+    const program = view.programId ? this.promptCollection.programs[view.programId] : undefined;
+    if (program && view.programDay !== undefined && program.days[view.programDay]?.promptId === prompt.id) {
+      this.currentProgramDay = { programId: program.id, day: view.programDay };
+      this.programsPanel.showBanner(program, view.programDay);
+    } else {
+      this.currentProgramDay = null;
+      this.programsPanel.showBanner(null);
+    }
+    // Links may ask for more steps than the prompt has in this language
+    this.followUpStep = Math.max(0, Math.min(view.step ?? 0, prompt.followUps?.length ?? 0));
+    this.renderFollowUps();
+    this.updatePromptLanguage(prompt);
 
     // Apply the user's purpose visibility preference instead of resetting to false
     this.updatePurposeDisplay();
+    this.updateFavoriteButton();
+    StatsManager.recordView(prompt.id);
+    this.updateWrittenButton();
+    this.statsPanel.refresh();
+    void this.writingPad.setPrompt(prompt.id);
 
     // Update current category but don't auto-pin unless user selected it
     this.currentCategory = prompt.category;
+    PromptSelector.recordVisit(prompt.category);
 
-    // Only update URL if this was opened with a deep link
-    if (this.wasOpenedWithDeepLink) {
+    // Give every shown prompt its own history entry so back/forward can return to it
+    if (recordHistory) {
+      this.pushHistoryEntry(prompt);
+    } else if (this.wasOpenedWithDeepLink) {
       this.updateUrl(prompt);
     }
   }
 
+  private updatePromptLanguage(prompt: Prompt): void {
+    // Let screen readers and hyphenation use the language the texts are actually in
+    const language = prompt.language.toLowerCase();
+    this.promptTextEl.lang = language;
+    this.promptPurposeEl.lang = language;
+    this.promptFollowUpsEl.lang = language;
+
+    // Region variants (DE-CH showing DE) are not worth a note, other languages are
+    const isFallback = !LanguageRegistry.isSameLanguage(prompt.language, this.currentLanguage);
+    this.promptLanguageNoteEl.textContent = isFallback
+      ? TranslationManager.get('messages.fallbackLanguage', {
+        language: LanguageRegistry.getLanguageName(prompt.language, this.currentLanguage),
+      })
+      : '';
+    this.promptLanguageNoteEl.classList.toggle(CSS_CLASSES.HIDDEN, !isFallback);
+  }
+
   private setupEventListeners(): void {
     // Category select event listener
     this.categorySelectEl.addEventListener('change', () => this.onCategoryChange());
 
     this.togglePurposeBtnEl.addEventListener('click', () => this.togglePurpose());
+    this.goDeeperBtnEl.addEventListener('click', () => this.goDeeper());
     this.newPromptBtnEl.addEventListener('click', () => this.selectNewPrompt());
-    this.copyLinkBtnEl.addEventListener('click', () => void this.copyCurrentLink());
+    // Shift-click copies the link without the language, so recipients see their own
+    this.copyLinkBtnEl.addEventListener('click', (event) => void this.copyCurrentLink(!event.shiftKey));
     this.pinBtnEl.addEventListener('click', () => this.togglePin());
+    this.previousPromptBtnEl.addEventListener('click', () => this.showPreviousPrompt());
+    this.favoriteBtnEl.addEventListener('click', () => this.toggleFavorite());
+    this.wroteBtnEl.addEventListener('click', () => this.toggleWritten());
+
+    // Favorites panel
+    this.showFavoritesBtnEl.addEventListener('click', () => this.toggleFavoritesPanel());
+    this.showFilterBtnEl.addEventListener('click', () => this.filterPanel.toggle());
+    this.showProgramsBtnEl.addEventListener('click', () => this.programsPanel.toggle());
+    this.showStatsBtnEl.addEventListener('click', () => this.statsPanel.toggle());
+    this.showPersonalBtnEl.addEventListener('click', () => this.personalPromptsPanel.toggle());
+    this.showPacksBtnEl.addEventListener('click', () => this.packsPanel.toggle());
+    this.closeFavoritesBtnEl.addEventListener('click', () => this.toggleFavoritesPanel());
+    this.favoritesModeBtnEl.addEventListener('click', () => this.toggleFavoritesMode());
+
+    // Restore prompts when navigating with browser back/forward
+    window.addEventListener('popstate', (event) => this.onHistoryNavigation(event));
 
     // Setup hamburger menu toggle
     this.setupSettingsMenu();
@@ -361,6 +1020,10 @@ class JournalPromptsApp {
       this.togglePurposeBtnEl.classList.remove(CSS_CLASSES.ACTIVE);
       this.togglePurposeBtnEl.title = TranslationManager.get('buttons.showPurpose');
     }
+    // Hints of follow-up questions are shown together with the purpose
+    this.promptFollowUpsEl.querySelectorAll('.follow-up-hint').forEach(hintEl => {
+      hintEl.classList.toggle(CSS_CLASSES.HIDDEN, !this.purposeVisible);
+    });
   }
 
   private togglePurpose(): void {
@@ -368,43 +1031,218 @@ class JournalPromptsApp {
     this.updatePurposeDisplay();
   }
 
+  // The way the current prompt is shown, to show it the same way again
+  private getCurrentView(): PromptView {
+    return {
+      step: this.followUpStep,
+      choices: this.templateChoices,
+      programId: this.currentProgramDay?.programId,
+      programDay: this.currentProgramDay?.day,
+    };
+  }
 
-  private updateUrl(prompt: Prompt): void {
+  private renderFollowUps(): void {
+    const followUps = this.currentPrompt?.followUps ?? [];
+    this.promptFollowUpsEl.innerHTML = '';
+
+    followUps.slice(0, this.followUpStep).forEach(followUp => {
+      const itemEl = document.createElement('li');
+      const questionEl = document.createElement('div');
+      questionEl.className = 'follow-up-question';
+      questionEl.innerHTML = parseMarkdown(followUp.question);
+      itemEl.appendChild(questionEl);
+
+      if (followUp.hint) {
+        const hintEl = document.createElement('div');
+        hintEl.className = 'follow-up-hint';
+        hintEl.classList.toggle(CSS_CLASSES.HIDDEN, !this.purposeVisible);
+        hintEl.textContent = followUp.hint;
+        itemEl.appendChild(hintEl);
+      }
+      this.promptFollowUpsEl.appendChild(itemEl);
+    });
+
+    this.promptFollowUpsEl.classList.toggle(CSS_CLASSES.HIDDEN, this.followUpStep === 0);
+    this.goDeeperBtnEl.classList.toggle(CSS_CLASSES.HIDDEN, followUps.length === 0);
+    this.goDeeperBtnEl.disabled = this.followUpStep >= followUps.length;
+  }
+
+  private goDeeper(): void {
+    if (!this.currentPrompt || this.followUpStep >= (this.currentPrompt.followUps?.length ?? 0)) {
+      return;
+    }
+
+    this.followUpStep += 1;
+    this.renderFollowUps();
+
+    // Remember the step in the history entry, and in the URL of deep links, so both return to it
+    const state = window.history.state as PromptHistoryState | null;
+    const url = this.wasOpenedWithDeepLink ? this.buildPromptUrl(this.currentPrompt) : window.location.href;
+    window.history.replaceState(state?.promptId ? { ...state, step: this.followUpStep } : state, '', url);
+  }
+
+
+  private buildPromptUrl(prompt: Prompt): string {
     const params = new URLSearchParams();
     params.set('id', prompt.id);
+    // Include the language so recipients see the prompt as it was shared
+    params.set('lang', this.currentLanguage.toLowerCase());
+    if (this.followUpStep > 0) {
+      params.set('step', String(this.followUpStep));
+    }
+    // Recipients see the same wording of templated prompts
+    if (this.templateChoices.length > 0) {
+      params.set('variant', formatChoices(this.templateChoices));
+    }
+    // Days are counted from 1 in links
+    if (this.currentProgramDay) {
+      params.set('program', this.currentProgramDay.programId);
+      params.set('day', String(this.currentProgramDay.day + 1));
+    }
+    writeFilterParams(params, this.promptFilter);
+
+    return `${window.location.pathname}?${params.toString()}`;
+  }
+
+  private updateUrl(prompt: Prompt): void {
+    // Rewrite the current history entry, the prompt itself did not change
+    window.history.replaceState(window.history.state, '', this.buildPromptUrl(prompt));
+    this.updateMetaTags();
+  }
+
+  private pushHistoryEntry(prompt: Prompt): void {
+    const url = this.wasOpenedWithDeepLink ? this.buildPromptUrl(prompt) : this.buildFilterUrl();
+    const isFirstEntry = this.historyIndex < 0;
+    this.historyIndex += 1;
+
+    const state: PromptHistoryState = {
+      promptId: prompt.id,
+      category: prompt.category,
+      pinned: this.isPinned,
+      index: this.historyIndex,
+      ...this.getCurrentView(),
+    };
+
+    // The first prompt of a session takes over the entry the page was opened with
+    if (isFirstEntry) {
+      window.history.replaceState(state, '', url);
+    } else {
+      window.history.pushState(state, '', url);
+    }
+
+    this.updateMetaTags();
+    this.updatePreviousPromptButton();
+  }
 
-    const newUrl = `${window.location.pathname}?${params.toString()}`;
-    window.history.pushState({}, '', newUrl);
+  private updateHistoryPinState(): void {
+    const state = window.history.state as PromptHistoryState | null;
+    if (state?.promptId && state.pinned !== this.isPinned) {
+      window.history.replaceState({ ...state, pinned: this.isPinned }, '', window.location.href);
+    }
   }
 
-  private clearUrl(): void {
-    // Clear URL parameters, keeping only the pathname
-    const cleanUrl = window.location.pathname;
-    window.history.pushState({}, '', cleanUrl);
+  private restoreFromHistoryState(state: PromptHistoryState | null): boolean {
+    if (!state?.promptId) {
+      return false;
+    }
+
+    const prompt = findPromptById(this.promptCollection.groups, state.promptId);
+    if (!prompt) {
+      return false;
+    }
+
+    this.historyIndex = state.index;
+    this.wasOpenedWithDeepLink = new URLSearchParams(window.location.search).has('id');
+    this.setPinned(state.pinned);
+    this.currentCategory = state.category;
+    this.displayPrompt(prompt, false, state);
+    this.updatePreviousPromptButton();
+    return true;
+  }
+
+  private onHistoryNavigation(event: PopStateEvent): void {
+    // Every entry carries the filter that was active when it was shown
+    this.applyFilter(readFilterParams(new URLSearchParams(window.location.search)));
+
+    if (!this.restoreFromHistoryState(event.state as PromptHistoryState | null)) {
+      // Entries without prompt state (e.g. a manually edited URL) go through deep link handling
+      this.historyIndex = -1;
+      if (!this.handleDeepLink()) {
+        this.loadRandomPromptFromAnyCategory();
+      }
+    }
+  }
+
+  private showPreviousPrompt(): void {
+    // Only walk back within the prompts shown in this session
+    if (this.historyIndex > 0) {
+      window.history.back();
+    }
+  }
+
+  private updatePreviousPromptButton(): void {
+    this.previousPromptBtnEl.disabled = this.historyIndex <= 0;
   }
 
   private handleDeepLink(): boolean {
     const params = new URLSearchParams(window.location.search);
     const promptId = params.get('id');
-    const category = params.get('category');
+    const categoryParam = params.get('category');
+    // Accept category IDs as well as names in any language from older links
+    const category = categoryParam ? resolveCategoryId(this.promptCollection, categoryParam) : null;
 
     // eslint-disable-next-line no-console
     console.log('Deep link handling - URL params:', {
       promptId,
-      category,
-      categoryGroupsLoaded: Object.keys(this.categoryGroups).length > 0,
-      availableCategories: Object.keys(this.categoryGroups)
+      category: categoryParam,
+      resolvedCategory: category,
+      categoryGroupsLoaded: Object.keys(this.promptCollection.groups).length > 0,
+      availableCategories: Object.keys(this.promptCollection.groups)
     });
 
+    if (this.wasOpenedWithLinkLanguage) {
+      this.showStatus(TranslationManager.get('messages.linkLanguageApplied'));
+    }
+
+    // Day of a program (?program=gratitude&day=3); without a day, the own progress or day 1
+    const programId = params.get('program');
+    const program = programId ? this.promptCollection.programs[programId] : undefined;
+    if (program) {
+      const progress = ProgramManager.getProgress();
+      const isEnrolled = progress?.programId === program.id;
+      const linkDay = Number(params.get('day')) - 1;
+      let day = 0;
+      if (Number.isInteger(linkDay) && linkDay >= 0 && linkDay < program.days.length) {
+        day = linkDay;
+      } else if (progress && isEnrolled) {
+        day = ProgramManager.getPendingDay(progress, program)
+          ?? ProgramManager.getScheduledDay(progress, program.days.length);
+      }
+
+      this.wasOpenedWithDeepLink = true;
+      if (this.showProgramDay(program.id, day, { step: Number(params.get('step')) || 0, choices: parseChoices(params.get('variant')) })) {
+        // Offer to start a program shared by someone else
+        if (!isEnrolled) {
+          this.programsPanel.show();
+        }
+        return true;
+      }
+      this.wasOpenedWithDeepLink = false;
+    }
+
     // Try new ID-based system first
     if (promptId) {
-      const prompt = findPromptById(this.categoryGroups, promptId);
+      const prompt = findPromptById(this.promptCollection.groups, promptId);
       if (prompt) {
         // eslint-disable-next-line no-console
         console.log('Deep link success - Found prompt by ID:', prompt);
         this.wasOpenedWithDeepLink = true;
         this.currentCategory = prompt.category;
-        this.displayPrompt(prompt);
+        // Links can point at a follow-up step (?id=BIO1&step=2) and the wording of a template (&variant=2.0)
+        this.displayPrompt(prompt, true, {
+          step: Number(params.get('step')) || 0,
+          choices: parseChoices(params.get('variant')),
+        });
         return true;
       } else {
         // eslint-disable-next-line no-console
@@ -412,11 +1250,23 @@ class JournalPromptsApp {
       }
     }
 
+    // Prompt of the day, optionally with the timezone option (?daily or ?daily=utc)
+    if (params.has('daily')) {
+      const linkTimezone = params.get('daily') || '';
+      const timezone = SettingsManager.isDailyTimezoneSupported(linkTimezone) ? linkTimezone : undefined;
+      const dailyUrl = window.location.href;
+      if (this.showDailyPrompt(timezone)) {
+        // Keep the ?daily link so reloading or bookmarking still shows the prompt of the day
+        window.history.replaceState(window.history.state, '', dailyUrl);
+        return true;
+      }
+    }
+
     // Fallback to old system for backwards compatibility
     const promptPrefix = params.get('prompt');
-    if (category && this.categoryGroups[category] && promptPrefix) {
+    if (category && promptPrefix) {
       const decodedPrefix = decodeURIComponent(promptPrefix);
-      const prompts = this.categoryGroups[category];
+      const prompts = this.promptCollection.groups[category] ?? [];
       const matchingPrompt = prompts.find(p => p.prompt.startsWith(decodedPrefix));
 
       if (matchingPrompt) {
@@ -433,7 +1283,7 @@ class JournalPromptsApp {
     }
 
     // Category-only fallback
-    if (category && this.categoryGroups[category]) {
+    if (category) {
       // eslint-disable-next-line no-console
       console.log('Deep link fallback - Selecting random prompt from category:', category);
       this.wasOpenedWithDeepLink = true;
@@ -443,7 +1293,7 @@ class JournalPromptsApp {
     }
 
     // If we get here, the deep link failed completely
-    if (promptId || category) {
+    if (promptId || categoryParam) {
       // eslint-disable-next-line no-console
       console.warn('Deep link failed completely - falling back to random prompt');
       // Clear invalid URL parameters
@@ -453,17 +1303,17 @@ class JournalPromptsApp {
     return false;
   }
 
-  private async copyCurrentLink(): Promise<void> {
+  private async copyCurrentLink(withLanguage: boolean = true): Promise<void> {
     try {
       // If URL is clean (no ID parameter), add current prompt ID first
       if (!this.wasOpenedWithDeepLink && this.currentPrompt) {
         this.updateUrl(this.currentPrompt);
       }
 
-      await navigator.clipboard.writeText(window.location.href);
+      await navigator.clipboard.writeText(this.getShareLink(withLanguage));
 
       // Show status notification
-      this.showStatus(TranslationManager.get('messages.linkSaved'));
+      this.showStatus(TranslationManager.get(withLanguage ? 'messages.linkSaved' : 'messages.linkSavedWithoutLanguage'));
 
       // Show temporary visual feedback on button
       this.copyLinkBtnEl.classList.add(CSS_CLASSES.COPIED);
@@ -474,18 +1324,26 @@ class JournalPromptsApp {
       // eslint-disable-next-line no-console
       console.error('Failed to copy link:', error);
       // Fallback for browsers that don't support clipboard API
-      this.fallbackCopyLink();
+      this.fallbackCopyLink(withLanguage);
     }
   }
 
-  private fallbackCopyLink(): void {
+  private getShareLink(withLanguage: boolean): string {
+    const url = new URL(window.location.href);
+    if (!withLanguage) {
+      url.searchParams.delete('lang');
+    }
+    return url.toString();
+  }
+
+  private fallbackCopyLink(withLanguage: boolean): void {
     // If URL is clean (no ID parameter), add current prompt ID first
     if (!this.wasOpenedWithDeepLink && this.currentPrompt) {
       this.updateUrl(this.currentPrompt);
     }
 
     const textArea = document.createElement('textarea');
-    textArea.value = window.location.href;
+    textArea.value = this.getShareLink(withLanguage);
     document.body.appendChild(textArea);
     textArea.focus();
     textArea.select();
@@ -494,7 +1352,7 @@ class JournalPromptsApp {
       document.execCommand('copy');
 
       // Show status notification
-      this.showStatus(TranslationManager.get('messages.linkSaved'));
+      this.showStatus(TranslationManager.get(withLanguage ? 'messages.linkSaved' : 'messages.linkSavedWithoutLanguage'));
 
       // Show temporary visual feedback on button
       this.copyLinkBtnEl.classList.add(CSS_CLASSES.COPIED);
@@ -510,24 +1368,26 @@ class JournalPromptsApp {
   }
 
   private setupLanguageSwitcher(): void {
-    // Initialize language button states
-    this.updateLanguageButtons();
+    // Buttons are rendered from the language registry, so listen on the switcher itself
+    this.languageSwitcherEl.addEventListener('click', (e) => {
+      const target = (e.target as HTMLElement).closest<HTMLButtonElement>(SELECTORS.LANG_BTN);
+      const language = target?.dataset.lang;
+      if (!language || !SettingsManager.isLanguageSupported(language)) {
+        return;
+      }
 
-    // Add event listeners for language buttons
-    const langButtons = this.languageSwitcherEl.querySelectorAll('.lang-btn');
-    langButtons.forEach(button => {
-      button.addEventListener('click', (e) => {
-        const target = e.target as HTMLButtonElement;
-        const language = target.dataset.lang;
-        if (language && language !== this.currentLanguage && SettingsManager.isLanguageSupported(language)) {
-          void this.switchLanguage(language);
-        }
-      });
+      if (language !== this.currentLanguage) {
+        void this.switchLanguage(language);
+      } else if (SettingsManager.hasLanguageOverride()) {
+        // Selecting the language applied from a link keeps it beyond this visit
+        SettingsManager.setLanguage(language);
+        this.showStatus(TranslationManager.get('messages.languageSaved'));
+      }
     });
   }
 
   private updateLanguageButtons(): void {
-    const langButtons = this.languageSwitcherEl.querySelectorAll('.lang-btn');
+    const langButtons = this.languageSwitcherEl.querySelectorAll(SELECTORS.LANG_BTN);
     langButtons.forEach(button => {
       const btnElement = button as HTMLButtonElement;
       const language = btnElement.dataset.lang;
@@ -549,6 +1409,7 @@ class JournalPromptsApp {
       const wasOnPromptScreen = !this.promptDisplayEl.classList.contains('hidden');
       const currentPromptId = this.currentPrompt?.id;
       const wasShowingPurpose = this.purposeVisible;
+      const view = this.getCurrentView();
 
       // Initialize translations for the new language
       await TranslationManager.initialize(newLanguage);
@@ -568,10 +1429,10 @@ class JournalPromptsApp {
 
       // Restore state if we were viewing a prompt
       if (wasOnPromptScreen && currentPromptId) {
-        const prompt = findPromptById(this.categoryGroups, currentPromptId);
+        const prompt = findPromptById(this.promptCollection.groups, currentPromptId);
         if (prompt) {
           this.currentCategory = prompt.category;
-          this.displayPrompt(prompt);
+          this.displayPrompt(prompt, false, view);
           
           // Restore purpose visibility
           if (wasShowingPurpose) {
@@ -659,6 +1520,213 @@ class JournalPromptsApp {
       e.preventDefault();
       this.toggleSettings();
     });
+
+    this.selectionStrategySelectEl.value = SettingsManager.getSelectionStrategy();
+    this.selectionStrategySelectEl.addEventListener('change', () => {
+      const strategy = this.selectionStrategySelectEl.value;
+      if (SettingsManager.isSelectionStrategySupported(strategy)) {
+        SettingsManager.setSelectionStrategy(strategy);
+      }
+    });
+
+    this.updateWritingPadVisibility();
+    this.writingPadToggleBtnEl.addEventListener('click', () => {
+      SettingsManager.setWritingPadVisible(!SettingsManager.getWritingPadVisible());
+      this.updateWritingPadVisibility();
+    });
+    // Save pending text before the page goes away
+    window.addEventListener('pagehide', () => void this.writingPad.flush());
+
+    this.updateDailyModeButton();
+    this.dailyModeBtnEl.addEventListener('click', () => {
+      const enabled = !SettingsManager.getDailyMode();
+      SettingsManager.setDailyMode(enabled);
+      this.updateDailyModeButton();
+      if (enabled) {
+        this.showDailyPrompt();
+      }
+    });
+
+    this.dailyTimezoneSelectEl.value = SettingsManager.getDailyTimezone();
+    this.dailyTimezoneSelectEl.addEventListener('change', () => {
+      const timezone = this.dailyTimezoneSelectEl.value;
+      if (SettingsManager.isDailyTimezoneSupported(timezone)) {
+        SettingsManager.setDailyTimezone(timezone);
+        if (SettingsManager.getDailyMode()) {
+          this.showDailyPrompt();
+        }
+      }
+    });
+
+    // Backup export and import
+    this.exportDataBtnEl.addEventListener('click', () => void this.exportData());
+    this.importDataBtnEl.addEventListener('click', () => this.importFileInputEl.click());
+    this.importFileInputEl.addEventListener('change', () => void this.onImportFileSelected());
+    this.importMergeBtnEl.addEventListener('click', () => void this.importData('merge'));
+    this.importReplaceBtnEl.addEventListener('click', () => void this.importData('replace'));
+    this.closeImportBtnEl.addEventListener('click', () => this.closeImportPanel());
+
+    this.resetSelectionBtnEl.addEventListener('click', () => {
+      PromptSelector.reset();
+      this.showStatus(TranslationManager.get('messages.selectionReset'));
+    });
+
+    this.clearStatsBtnEl.addEventListener('click', () => {
+      if (!window.confirm(TranslationManager.get('stats.clearConfirm'))) {
+        return;
+      }
+      StatsManager.clear();
+      this.updateWrittenButton();
+      this.statsPanel.refresh();
+      this.showStatus(TranslationManager.get('messages.statsCleared'));
+    });
+  }
+
+  private async exportData(): Promise<void> {
+    try {
+      // Include pending writing pad text in the backup
+      await this.writingPad.flush();
+      const backup = await BackupManager.createBackup();
+
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = BackupManager.getFileName(backup);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      this.showStatus(TranslationManager.get('messages.exportDone'));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to export data:', error);
+      this.showStatus(TranslationManager.get('messages.exportFailed'));
+    }
+  }
+
+  private async onImportFileSelected(): Promise<void> {
+    const file = this.importFileInputEl.files?.[0];
+    // Allow selecting the same file again later
+    this.importFileInputEl.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      this.pendingBackup = BackupManager.parseBackup(await file.text());
+      this.renderImportPreview(this.pendingBackup);
+      this.importPanelEl.classList.remove(CSS_CLASSES.HIDDEN);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Invalid backup file:', error);
+      this.showStatus(TranslationManager.get('messages.importInvalid'));
+    }
+  }
+
+  private renderImportPreview(backup: BackupData): void {
+    const summary = BackupManager.summarize(backup);
+    const exportedAt = summary.exportedAt
+      ? new Date(summary.exportedAt).toLocaleString(this.currentLanguage.toLowerCase())
+      : '-';
+    const rows: Array<[string, string]> = [
+      [TranslationManager.get('backup.exportedAt'), exportedAt],
+      [TranslationManager.get('backup.settings'), String(summary.settings)],
+      [TranslationManager.get('backup.favorites'), String(summary.favorites)],
+      [TranslationManager.get('backup.packs'), String(summary.packs)],
+      [TranslationManager.get('backup.personalPrompts'), String(summary.personalPrompts)],
+      [TranslationManager.get('backup.sessions'), String(summary.sessions)],
+      [TranslationManager.get('backup.activity'), String(summary.activity)],
+      [TranslationManager.get('backup.entries'), String(summary.entries)],
+    ];
+
+    this.importSummaryEl.innerHTML = '';
+    rows.forEach(([label, value]) => {
+      const item = document.createElement('li');
+      item.className = 'panel-summary-item';
+      const labelEl = document.createElement('span');
+      labelEl.textContent = label;
+      const valueEl = document.createElement('strong');
+      valueEl.textContent = value;
+      item.append(labelEl, valueEl);
+      this.importSummaryEl.appendChild(item);
+    });
+  }
+
+  private async importData(mode: RestoreMode): Promise<void> {
+    if (!this.pendingBackup) {
+      return;
+    }
+
+    if (mode === 'replace' && !window.confirm(TranslationManager.get('backup.replaceConfirm'))) {
+      return;
+    }
+
+    try {
+      await BackupManager.restoreBackup(this.pendingBackup, mode);
+      // Reload so every setting is applied from the restored data
+      window.location.reload();
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to import data:', error);
+      this.showStatus(TranslationManager.get('messages.importFailed'));
+    }
+  }
+
+  private async installLinkedPack(): Promise<void> {
+    const params = new URLSearchParams(window.location.search);
+    const packUrl = params.get('pack');
+    if (!packUrl) {
+      return;
+    }
+
+    // Don't offer the same pack again on reload
+    params.delete('pack');
+    const query = params.toString();
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+
+    await this.packsPanel.installFromUrl(new URL(packUrl, window.location.href).href);
+  }
+
+  private async reloadPrompts(showPromptId?: string): Promise<void> {
+    await this.loadAndDisplayCategories();
+
+    // Show a newly saved prompt
+    const savedPrompt = showPromptId ? findPromptById(this.promptCollection.groups, showPromptId) : null;
+    if (savedPrompt) {
+      this.wasOpenedWithDeepLink = false;
+      this.displayPrompt(savedPrompt, savedPrompt.id !== this.currentPrompt?.id);
+      return;
+    }
+
+    // Keep the current prompt unless it was deleted or belonged to a removed or disabled pack
+    const prompt = this.currentPrompt && findPromptById(this.promptCollection.groups, this.currentPrompt.id);
+    if (prompt) {
+      this.displayPrompt(prompt, false, this.getCurrentView());
+    } else {
+      this.setPinned(false);
+      this.loadRandomPromptFromAnyCategory();
+    }
+  }
+
+  private closeImportPanel(): void {
+    this.pendingBackup = null;
+    this.importPanelEl.classList.add(CSS_CLASSES.HIDDEN);
+  }
+
+  private updateWritingPadVisibility(): void {
+    const visible = SettingsManager.getWritingPadVisible();
+    this.writingPad.setVisible(visible);
+    this.writingPadToggleBtnEl.classList.toggle(CSS_CLASSES.ACTIVE, visible);
+  }
+
+  private updateDailyModeButton(): void {
+    if (SettingsManager.getDailyMode()) {
+      this.dailyModeBtnEl.classList.add(CSS_CLASSES.ACTIVE);
+    } else {
+      this.dailyModeBtnEl.classList.remove(CSS_CLASSES.ACTIVE);
+    }
   }
 
   private setupKeyboardShortcuts(): void {
@@ -687,12 +1755,32 @@ class JournalPromptsApp {
           break;
         case 'l':
           event.preventDefault();
-          void this.copyCurrentLink();
+          void this.copyCurrentLink(!event.shiftKey);
           break;
         case 's':
           event.preventDefault();
           this.togglePurpose();
           break;
+        case 'b':
+          event.preventDefault();
+          this.showPreviousPrompt();
+          break;
+        case 'd':
+          event.preventDefault();
+          this.goDeeper();
+          break;
+        case 't':
+          event.preventDefault();
+          this.writingSession.toggle();
+          break;
+        case 'f':
+          event.preventDefault();
+          this.toggleFavorite();
+          break;
+        case 'w':
+          event.preventDefault();
+          this.toggleWritten();
+          break;
       }
     });
   }
@@ -728,6 +1816,22 @@ class JournalPromptsApp {
     }, 2500);
   }
 
+  private showUpdateNotice(): void {
+    const notice = document.getElementById(ELEMENT_IDS.UPDATE_NOTICE);
+    const reloadBtn = document.getElementById(ELEMENT_IDS.UPDATE_RELOAD_BTN);
+    if (!notice || !reloadBtn) {
+      return;
+    }
+
+    const message = notice.querySelector('.update-notice-message');
+    if (message) {
+      message.textContent = TranslationManager.get('messages.updateAvailable');
+    }
+    reloadBtn.textContent = TranslationManager.get('buttons.reload');
+    reloadBtn.onclick = (): void => window.location.reload();
+    notice.classList.remove(CSS_CLASSES.HIDDEN);
+  }
+
   private showError(message: string): void {
     document.body.innerHTML = `
       <div class="error">
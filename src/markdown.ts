@@ -0,0 +1,28 @@
+/**
+ * Markdown rendering for prompts and journal entries
+ */
+
+import { marked } from 'marked';
+import { sanitizeHtml } from './sanitize.ts';
+
+marked.setOptions({
+  breaks: true,
+  gfm: true,
+});
+
+/**
+ * Renders Markdown to HTML that is safe to assign to innerHTML
+ * @param text - Markdown from any source, e.g. a pack or the user
+ */
+export function parseMarkdown(text: string): string {
+  return sanitizeHtml(renderMarkdown(text));
+}
+
+/**
+ * Renders Markdown without sanitizing, for checks outside the browser (see prompt-validator.ts).
+ * Never assign the result to innerHTML.
+ * @param text - The Markdown
+ */
+export function renderMarkdown(text: string): string {
+  return marked(text) as string;
+}
@@ -0,0 +1,173 @@
+/**
+ * Panel to install prompt packs from a file and to enable, disable or remove them
+ */
+
+import { PackManager } from './packs.ts';
+import { PromptSourceRegistry } from './prompt-source-registry.ts';
+import { readFile, readUrl, TextReader } from './prompt-sources.ts';
+import { TranslationManager } from './translations.ts';
+import { createIcon, replaceIcon } from './icons.ts';
+import { getElementById } from './utils.ts';
+import { ELEMENT_IDS, CSS_CLASSES } from './constants.ts';
+import { PromptPack } from './types.ts';
+
+export class PacksPanel {
+  private panelEl: HTMLElement;
+  private titleEl: HTMLElement;
+  private listEl: HTMLElement;
+  private emptyEl: HTMLElement;
+  private addBtnEl: HTMLElement;
+  private fileInputEl: HTMLInputElement;
+  private closeBtnEl: HTMLElement;
+
+  /**
+   * @param onChange - Called after packs were installed, toggled or removed, to reload the prompts
+   * @param showStatus - Shows a short status message
+   */
+  constructor(private onChange: () => Promise<void>, private showStatus: (message: string) => void) {
+    this.panelEl = getElementById(ELEMENT_IDS.PACKS_PANEL, 'Packs panel');
+    this.titleEl = getElementById(ELEMENT_IDS.PACKS_TITLE, 'Packs title');
+    this.listEl = getElementById(ELEMENT_IDS.PACKS_LIST, 'Packs list');
+    this.emptyEl = getElementById(ELEMENT_IDS.PACKS_EMPTY, 'Packs empty message');
+    this.addBtnEl = getElementById(ELEMENT_IDS.ADD_PACK_BTN, 'Add pack button');
+    this.fileInputEl = getElementById<HTMLInputElement>(ELEMENT_IDS.PACK_FILE_INPUT, 'Pack file input');
+    this.closeBtnEl = getElementById(ELEMENT_IDS.CLOSE_PACKS_BTN, 'Close packs button');
+    replaceIcon(this.closeBtnEl, 'close');
+
+    this.addBtnEl.addEventListener('click', () => this.fileInputEl.click());
+    this.fileInputEl.addEventListener('change', () => void this.onFileSelected());
+    this.closeBtnEl.addEventListener('click', () => this.toggle());
+  }
+
+  /**
+   * Shows or hides the panel
+   */
+  toggle(): void {
+    const isHidden = this.panelEl.classList.toggle(CSS_CLASSES.HIDDEN);
+    if (!isHidden) {
+      this.render();
+    }
+  }
+
+  /**
+   * Updates all texts of the panel for the current language
+   */
+  updateUIText(): void {
+    this.titleEl.textContent = TranslationManager.get('packs.title');
+    this.emptyEl.textContent = TranslationManager.get('packs.empty');
+    this.addBtnEl.textContent = TranslationManager.get('packs.add');
+    this.addBtnEl.title = TranslationManager.get('packs.addHint');
+    this.closeBtnEl.title = TranslationManager.get('buttons.closePanel');
+    if (!this.panelEl.classList.contains(CSS_CLASSES.HIDDEN)) {
+      this.render();
+    }
+  }
+
+  /**
+   * Installs a pack from a shared link (?pack=<url>) after the user confirmed it
+   * @param url - The URL of the YAML or JSON file
+   */
+  async installFromUrl(url: string): Promise<void> {
+    if (!window.confirm(TranslationManager.get('packs.installConfirm', { url }))) {
+      return;
+    }
+    await this.install(readUrl(url), url);
+  }
+
+  private async onFileSelected(): Promise<void> {
+    const file = this.fileInputEl.files?.[0];
+    // Allow selecting the same file again later
+    this.fileInputEl.value = '';
+    if (!file) {
+      return;
+    }
+
+    await this.install(readFile(file), file.name);
+  }
+
+  private async install(read: TextReader, origin: string): Promise<void> {
+    let text: string;
+    try {
+      text = await read();
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read prompt pack:', error);
+      this.showStatus(TranslationManager.get('messages.packLoadFailed'));
+      return;
+    }
+
+    let pack: PromptPack;
+    try {
+      pack = await PackManager.parsePack(text, origin);
+      PackManager.savePack(pack);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Invalid prompt pack:', error);
+      this.showStatus(TranslationManager.get('messages.packInvalid'));
+      return;
+    }
+
+    await this.applyChanges();
+    this.showStatus(TranslationManager.get('messages.packInstalled', { name: pack.name }));
+  }
+
+  private render(): void {
+    const packs = PackManager.getPacks();
+    this.listEl.innerHTML = '';
+    this.emptyEl.classList.toggle(CSS_CLASSES.HIDDEN, packs.length > 0);
+
+    packs.forEach(pack => {
+      const item = document.createElement('li');
+      item.className = 'panel-list-item with-action';
+      item.classList.toggle('disabled', !pack.enabled);
+
+      const name = document.createElement('span');
+      name.className = 'panel-list-text';
+      name.textContent = pack.name;
+      name.title = pack.origin;
+
+      const meta = document.createElement('span');
+      meta.className = 'panel-list-meta';
+      meta.textContent = `${pack.id} · ${TranslationManager.plural('packs.prompts', PackManager.countPrompts(pack))}`;
+      // Tell pack authors what went wrong when loading the pack
+      const diagnostics = pack.enabled ? PromptSourceRegistry.getSourceDiagnostics(PackManager.getSourceId(pack.id)) : undefined;
+      if (diagnostics?.status === 'failed') {
+        meta.textContent += ` · ${TranslationManager.get('packs.loadFailed')}`;
+        meta.title = diagnostics.error ?? '';
+      } else if (diagnostics && diagnostics.skippedIds.length > 0) {
+        meta.textContent += ` · ${TranslationManager.plural('packs.skipped', diagnostics.skippedIds.length)}`;
+        meta.title = diagnostics.skippedIds.join(', ');
+      }
+
+      const toggleBtn = document.createElement('button');
+      toggleBtn.className = 'settings-action-btn';
+      toggleBtn.textContent = TranslationManager.get(pack.enabled ? 'packs.disable' : 'packs.enable');
+      toggleBtn.addEventListener('click', () => {
+        PackManager.setEnabled(pack.id, !pack.enabled);
+        void this.applyChanges();
+      });
+
+      const removeBtn = document.createElement('button');
+      removeBtn.className = 'panel-icon-btn';
+      removeBtn.title = TranslationManager.get('packs.remove');
+      removeBtn.appendChild(createIcon('close'));
+      removeBtn.addEventListener('click', () => {
+        if (window.confirm(TranslationManager.get('packs.removeConfirm', { name: pack.name }))) {
+          PackManager.removePack(pack.id);
+          void this.applyChanges();
+        }
+      });
+
+      item.append(name, meta, toggleBtn, removeBtn);
+      this.listEl.appendChild(item);
+    });
+  }
+
+  private async applyChanges(): Promise<void> {
+    PackManager.registerSources();
+    await this.onChange();
+    if (!this.panelEl.classList.contains(CSS_CLASSES.HIDDEN)) {
+      this.render();
+    }
+  }
+}
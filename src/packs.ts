@@ -0,0 +1,163 @@
+/**
+ * Custom prompt packs installed from a file or URL, stored in localStorage and merged
+ * with the built-in prompts as namespaced categories (e.g. team-retros:ONB)
+ */
+
+import { STORAGE_KEYS } from './constants.ts';
+import { PromptSourceRegistry } from './prompt-source-registry.ts';
+import { CleanDataPromptSource } from './prompt-sources.ts';
+import { CleanPromptsData, PromptPack } from './types.ts';
+import { hashString } from './utils.ts';
+
+const SOURCE_ID_PREFIX = 'pack:';
+// Validation errors shown when a pack is rejected
+const MAX_REPORTED_ERRORS = 3;
+
+export class PackManager {
+  /**
+   * Gets all installed packs in the order they were installed
+   * @returns The packs or an empty list if not set/invalid
+   */
+  static getPacks(): PromptPack[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.PACKS);
+      if (stored) {
+        const parsed = JSON.parse(stored) as unknown;
+        if (Array.isArray(parsed)) {
+          return parsed as PromptPack[];
+        }
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read prompt packs from localStorage:', error);
+    }
+    return [];
+  }
+
+  /**
+   * Validates a pack in the clean structure and namespaces its categories
+   * @param text - The pack as YAML or JSON
+   * @param origin - The file name or URL it comes from
+   * @throws Error with the validation errors if the pack is invalid
+   */
+  static async parsePack(text: string, origin: string): Promise<PromptPack> {
+    // The parser is only needed here, so it's not part of the app bundle
+    const [{ validatePrompts }, yaml] = await Promise.all([import('./prompt-validator.ts'), import('js-yaml')]);
+
+    const report = validatePrompts(text, { allowMissingTranslations: true });
+    const errors = report.issues.filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw new Error(errors.slice(0, MAX_REPORTED_ERRORS).map(issue => `${issue.location}: ${issue.message}`).join('\n'));
+    }
+
+    const data = yaml.load(text) as CleanPromptsData;
+    const name = typeof data.name === 'string' && data.name.trim() ? data.name.trim() : this.getNameFromOrigin(origin);
+    const id = this.toNamespace(name);
+
+    const categories: CleanPromptsData['categories'] = {};
+    Object.entries(data.categories).forEach(([categoryId, category]) => {
+      categories[`${id}:${categoryId}`] = category;
+    });
+
+    return { id, name, origin, enabled: true, installedAt: Date.now(), data: { name, slots: data.slots, categories } };
+  }
+
+  /**
+   * Installs a pack, replacing an installed pack with the same namespace
+   * @param pack - The parsed pack
+   */
+  static savePack(pack: PromptPack): void {
+    const packs = this.getPacks();
+    const index = packs.findIndex(existing => existing.id === pack.id);
+    if (index >= 0) {
+      packs[index] = pack;
+    } else {
+      packs.push(pack);
+    }
+    this.savePacks(packs);
+  }
+
+  /**
+   * Enables or disables a pack without removing it
+   * @param packId - The namespace of the pack
+   * @param enabled - Whether its prompts should be shown
+   */
+  static setEnabled(packId: string, enabled: boolean): void {
+    this.savePacks(this.getPacks().map(pack => pack.id === packId ? { ...pack, enabled } : pack));
+  }
+
+  /**
+   * Removes a pack
+   * @param packId - The namespace of the pack
+   */
+  static removePack(packId: string): void {
+    this.savePacks(this.getPacks().filter(pack => pack.id !== packId));
+  }
+
+  /**
+   * Counts the prompts of a pack
+   */
+  static countPrompts(pack: PromptPack): number {
+    return Object.values(pack.data.categories).reduce((count, category) => count + category.prompts.length, 0);
+  }
+
+  /**
+   * Registers the enabled packs as prompt sources after the built-in prompts
+   */
+  static registerSources(): void {
+    PromptSourceRegistry.getSources()
+      .filter(source => this.isPackSource(source.id))
+      .forEach(source => PromptSourceRegistry.unregister(source.id));
+
+    this.getPacks().filter(pack => pack.enabled).forEach(pack => {
+      PromptSourceRegistry.register(new CleanDataPromptSource(
+        this.getSourceId(pack.id),
+        pack.name,
+        pack.data,
+        hashString(JSON.stringify(pack.data))
+      ));
+    });
+  }
+
+  /**
+   * Gets the ID of the prompt source of a pack, e.g. to look up its diagnostics
+   * @param packId - The namespace of the pack
+   */
+  static getSourceId(packId: string): string {
+    return `${SOURCE_ID_PREFIX}${packId}`;
+  }
+
+  /**
+   * Checks whether a prompt source was registered for a pack
+   * @param sourceId - The ID of the source, e.g. from the registry diagnostics
+   */
+  static isPackSource(sourceId: string): boolean {
+    return sourceId.startsWith(SOURCE_ID_PREFIX);
+  }
+
+  private static getNameFromOrigin(origin: string): string {
+    const fileName = origin.split(/[/\\?#]/).filter(Boolean).pop() ?? origin;
+    return fileName.replace(/\.(ya?ml|json)$/i, '') || 'pack';
+  }
+
+  // "Team Retros" → team-retros
+  private static toNamespace(name: string): string {
+    const namespace = name
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    return namespace || 'pack';
+  }
+
+  private static savePacks(packs: PromptPack[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.PACKS, JSON.stringify(packs));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save prompt packs to localStorage:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Panel to write, edit and delete personal prompts, with a live preview of the prompt
+ */
+
+import { PERSONAL_SOURCE_ID, PersonalPromptManager } from './personal-prompts.ts';
+import { PromptSourceRegistry } from './prompt-source-registry.ts';
+import { parseMarkdown } from './markdown.ts';
+import { LanguageRegistry } from './languages.ts';
+import { TranslationManager } from './translations.ts';
+import { createIcon, replaceIcon } from './icons.ts';
+import { getElementById } from './utils.ts';
+import { ELEMENT_IDS, CSS_CLASSES } from './constants.ts';
+import { PersonalPrompt, Prompt, PromptTranslation, SourceDiagnostics } from './types.ts';
+
+// Value of the category option that reveals the name field for a new category
+const NEW_CATEGORY_VALUE = '';
+
+export interface PersonalPromptsPanelOptions {
+  getCategories: () => Array<[string, string]>; // IDs and labels of the categories a prompt can go into
+  getPrompt: (promptId: string) => Prompt | null; // The prompt as displayed in the current language
+  onOpen: (prompt: Prompt) => void;
+  onChange: (promptId?: string) => Promise<void>; // Reloads the prompts, showing this prompt if given
+  showStatus: (message: string) => void;
+}
+
+export class PersonalPromptsPanel {
+  private panelEl: HTMLElement;
+  private titleEl: HTMLElement;
+  private listEl: HTMLElement;
+  private emptyEl: HTMLElement;
+  private newPromptBtnEl: HTMLElement;
+  private closeBtnEl: HTMLElement;
+  private editorEl: HTMLFormElement;
+  private categorySelectEl: HTMLSelectElement;
+  private newCategoryEl: HTMLInputElement;
+  private languageSelectEl: HTMLSelectElement;
+  private textEl: HTMLTextAreaElement;
+  private purposeEl: HTMLTextAreaElement;
+  private previewTextEl: HTMLElement;
+  private previewPurposeEl: HTMLElement;
+  private saveBtnEl: HTMLElement;
+  private cancelBtnEl: HTMLElement;
+  private editingId: string | null = null;
+  private editingLanguage: string = '';
+  private drafts: { [languageCode: string]: PromptTranslation } = {};
+
+  constructor(private options: PersonalPromptsPanelOptions) {
+    this.panelEl = getElementById(ELEMENT_IDS.PERSONAL_PANEL, 'Personal prompts panel');
+    this.titleEl = getElementById(ELEMENT_IDS.PERSONAL_TITLE, 'Personal prompts title');
+    this.listEl = getElementById(ELEMENT_IDS.PERSONAL_LIST, 'Personal prompts list');
+    this.emptyEl = getElementById(ELEMENT_IDS.PERSONAL_EMPTY, 'Personal prompts empty message');
+    this.newPromptBtnEl = getElementById(ELEMENT_IDS.NEW_PERSONAL_PROMPT_BTN, 'New personal prompt button');
+    this.closeBtnEl = getElementById(ELEMENT_IDS.CLOSE_PERSONAL_BTN, 'Close personal prompts button');
+    this.editorEl = getElementById<HTMLFormElement>(ELEMENT_IDS.PROMPT_EDITOR, 'Prompt editor');
+    this.categorySelectEl = getElementById<HTMLSelectElement>(ELEMENT_IDS.PROMPT_EDITOR_CATEGORY, 'Prompt editor category');
+    this.newCategoryEl = getElementById<HTMLInputElement>(ELEMENT_IDS.PROMPT_EDITOR_NEW_CATEGORY, 'Prompt editor new category');
+    this.languageSelectEl = getElementById<HTMLSelectElement>(ELEMENT_IDS.PROMPT_EDITOR_LANGUAGE, 'Prompt editor language');
+    this.textEl = getElementById<HTMLTextAreaElement>(ELEMENT_IDS.PROMPT_EDITOR_TEXT, 'Prompt editor text');
+    this.purposeEl = getElementById<HTMLTextAreaElement>(ELEMENT_IDS.PROMPT_EDITOR_PURPOSE, 'Prompt editor purpose');
+    this.previewTextEl = getElementById(ELEMENT_IDS.PROMPT_EDITOR_PREVIEW_TEXT, 'Prompt editor preview text');
+    this.previewPurposeEl = getElementById(ELEMENT_IDS.PROMPT_EDITOR_PREVIEW_PURPOSE, 'Prompt editor preview purpose');
+    this.saveBtnEl = getElementById(ELEMENT_IDS.PROMPT_EDITOR_SAVE_BTN, 'Prompt editor save button');
+    this.cancelBtnEl = getElementById(ELEMENT_IDS.PROMPT_EDITOR_CANCEL_BTN, 'Prompt editor cancel button');
+    replaceIcon(this.closeBtnEl, 'close');
+
+    this.newPromptBtnEl.addEventListener('click', () => this.openEditor(null));
+    this.closeBtnEl.addEventListener('click', () => this.toggle());
+    this.categorySelectEl.addEventListener('change', () => this.updateNewCategoryField());
+    this.languageSelectEl.addEventListener('change', () => this.switchLanguage(this.languageSelectEl.value));
+    this.textEl.addEventListener('input', () => this.updatePreview());
+    this.purposeEl.addEventListener('input', () => this.updatePreview());
+    this.cancelBtnEl.addEventListener('click', () => this.closeEditor());
+    this.editorEl.addEventListener('submit', (event) => {
+      event.preventDefault();
+      void this.save();
+    });
+  }
+
+  /**
+   * Shows or hides the panel
+   */
+  toggle(): void {
+    const isHidden = this.panelEl.classList.toggle(CSS_CLASSES.HIDDEN);
+    if (isHidden) {
+      this.closeEditor();
+    } else {
+      this.render();
+    }
+  }
+
+  /**
+   * Updates all texts of the panel for the current language
+   */
+  updateUIText(): void {
+    this.titleEl.textContent = TranslationManager.get('personal.title');
+    this.emptyEl.textContent = TranslationManager.get('personal.empty');
+    this.newPromptBtnEl.textContent = TranslationManager.get('personal.newPrompt');
+    this.closeBtnEl.title = TranslationManager.get('buttons.closePanel');
+    this.categorySelectEl.title = TranslationManager.get('personal.category');
+    this.newCategoryEl.placeholder = TranslationManager.get('personal.newCategoryPlaceholder');
+    this.languageSelectEl.title = TranslationManager.get('personal.language');
+    this.textEl.placeholder = TranslationManager.get('personal.promptPlaceholder');
+    this.purposeEl.placeholder = TranslationManager.get('personal.purposePlaceholder');
+    this.saveBtnEl.textContent = TranslationManager.get('personal.save');
+    this.cancelBtnEl.textContent = TranslationManager.get('personal.cancel');
+    if (!this.editorEl.classList.contains(CSS_CLASSES.HIDDEN)) {
+      this.renderOptions();
+    }
+    if (!this.panelEl.classList.contains(CSS_CLASSES.HIDDEN)) {
+      this.render();
+    }
+  }
+
+  private render(): void {
+    // Prompts whose ID an earlier source already has are not loaded, so they can't be listed
+    const diagnostics = PromptSourceRegistry.getSourceDiagnostics(PERSONAL_SOURCE_ID);
+    const skippedIds = new Set(diagnostics?.skippedIds);
+    const prompts = PersonalPromptManager.getLibrary().prompts
+      .filter(personalPrompt => !skippedIds.has(personalPrompt.id))
+      .map(personalPrompt => this.options.getPrompt(personalPrompt.id))
+      .filter((prompt): prompt is Prompt => prompt !== null);
+    const labels = new Map(this.options.getCategories());
+
+    this.listEl.innerHTML = '';
+    this.renderNotice(diagnostics, prompts.length);
+
+    prompts.forEach(prompt => {
+      const item = document.createElement('li');
+      item.className = 'panel-list-item with-action';
+
+      const openBtn = document.createElement('button');
+      openBtn.className = 'panel-list-text';
+      openBtn.innerHTML = parseMarkdown(prompt.prompt);
+      openBtn.addEventListener('click', () => this.options.onOpen(prompt));
+
+      const category = document.createElement('span');
+      category.className = 'panel-list-meta';
+      category.textContent = labels.get(prompt.category) ?? prompt.category;
+
+      const editBtn = document.createElement('button');
+      editBtn.className = 'settings-action-btn';
+      editBtn.textContent = TranslationManager.get('personal.edit');
+      editBtn.addEventListener('click', () => this.openEditor(PersonalPromptManager.getPrompt(prompt.id)));
+
+      const deleteBtn = document.createElement('button');
+      deleteBtn.className = 'panel-icon-btn';
+      deleteBtn.title = TranslationManager.get('personal.delete');
+      deleteBtn.appendChild(createIcon('close'));
+      deleteBtn.addEventListener('click', () => void this.delete(prompt.id));
+
+      item.append(openBtn, category, editBtn, deleteBtn);
+      this.listEl.appendChild(item);
+    });
+  }
+
+  // Explains why questions are missing from the list, or that there are none yet
+  private renderNotice(diagnostics: SourceDiagnostics | undefined, promptCount: number): void {
+    let notice = '';
+    if (diagnostics?.status === 'failed') {
+      notice = TranslationManager.get('personal.loadFailed');
+    } else if (diagnostics && diagnostics.skippedIds.length > 0) {
+      notice = TranslationManager.plural('personal.skipped', diagnostics.skippedIds.length);
+    } else if (promptCount === 0) {
+      notice = TranslationManager.get('personal.empty');
+    }
+
+    this.emptyEl.textContent = notice;
+    this.emptyEl.title = diagnostics?.error ?? diagnostics?.skippedIds.join(', ') ?? '';
+    this.emptyEl.classList.toggle(CSS_CLASSES.HIDDEN, !notice);
+  }
+
+  private openEditor(prompt: PersonalPrompt | null): void {
+    this.editingId = prompt ? prompt.id : null;
+    this.drafts = prompt ? { ...prompt.translations } : {};
+
+    // Start with the displayed language, or the first language the prompt is written in
+    const current = TranslationManager.getCurrentLanguage().toLowerCase();
+    const written = Object.keys(this.drafts);
+    this.editingLanguage = written.length === 0 || written.includes(current) ? current : written[0];
+
+    this.renderOptions();
+    this.categorySelectEl.value = prompt ? prompt.category : this.categorySelectEl.options[0]?.value ?? NEW_CATEGORY_VALUE;
+    this.newCategoryEl.value = '';
+    this.updateNewCategoryField();
+    this.loadDraft();
+
+    this.editorEl.classList.remove(CSS_CLASSES.HIDDEN);
+    this.textEl.focus();
+  }
+
+  private closeEditor(): void {
+    this.editingId = null;
+    this.drafts = {};
+    this.editorEl.classList.add(CSS_CLASSES.HIDDEN);
+  }
+
+  private renderOptions(): void {
+    const selectedCategory = this.categorySelectEl.value;
+    this.categorySelectEl.innerHTML = '';
+    this.options.getCategories().forEach(([categoryId, label]) => {
+      this.categorySelectEl.appendChild(new Option(label, categoryId));
+    });
+    this.categorySelectEl.appendChild(new Option(TranslationManager.get('personal.newCategory'), NEW_CATEGORY_VALUE));
+    this.categorySelectEl.value = selectedCategory;
+
+    // Offer every app language, plus languages the prompt was written in before
+    const current = TranslationManager.getCurrentLanguage();
+    const languages = new Set([
+      ...LanguageRegistry.getLanguages().map(language => language.toLowerCase()),
+      ...Object.keys(this.drafts),
+      this.editingLanguage,
+    ]);
+    this.languageSelectEl.innerHTML = '';
+    languages.forEach(code => {
+      this.languageSelectEl.appendChild(new Option(LanguageRegistry.getLanguageName(code.toUpperCase(), current), code));
+    });
+    this.languageSelectEl.value = this.editingLanguage;
+  }
+
+  private updateNewCategoryField(): void {
+    this.newCategoryEl.classList.toggle(CSS_CLASSES.HIDDEN, this.categorySelectEl.value !== NEW_CATEGORY_VALUE);
+  }
+
+  private switchLanguage(language: string): void {
+    this.storeDraft();
+    this.editingLanguage = language;
+    this.loadDraft();
+  }
+
+  private storeDraft(): void {
+    const prompt = this.textEl.value.trim();
+    if (prompt) {
+      this.drafts[this.editingLanguage] = { prompt, purpose: this.purposeEl.value.trim() };
+    } else {
+      delete this.drafts[this.editingLanguage];
+    }
+  }
+
+  private loadDraft(): void {
+    const draft = this.drafts[this.editingLanguage];
+    this.textEl.value = draft ? draft.prompt : '';
+    this.purposeEl.value = draft ? draft.purpose : '';
+    this.textEl.lang = this.editingLanguage;
+    this.purposeEl.lang = this.editingLanguage;
+    this.updatePreview();
+  }
+
+  private updatePreview(): void {
+    this.previewTextEl.innerHTML = parseMarkdown(this.textEl.value);
+    this.previewPurposeEl.textContent = this.purposeEl.value;
+  }
+
+  private async save(): Promise<void> {
+    this.storeDraft();
+    if (Object.keys(this.drafts).length === 0) {
+      this.options.showStatus(TranslationManager.get('personal.promptRequired'));
+      return;
+    }
+
+    const isNewCategory = this.categorySelectEl.value === NEW_CATEGORY_VALUE;
+    const newCategoryName = this.newCategoryEl.value.trim();
+    if (isNewCategory && !newCategoryName) {
+      this.options.showStatus(TranslationManager.get('personal.categoryRequired'));
+      this.newCategoryEl.focus();
+      return;
+    }
+
+    try {
+      const prompt = PersonalPromptManager.savePrompt(
+        { id: this.editingId ?? undefined, category: this.categorySelectEl.value, translations: this.drafts },
+        isNewCategory ? newCategoryName : undefined
+      );
+      this.closeEditor();
+      await this.options.onChange(prompt.id);
+      this.render();
+      this.options.showStatus(TranslationManager.get('messages.personalSaved'));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to save personal prompt:', error);
+      this.options.showStatus(TranslationManager.get('writingPad.failed'));
+    }
+  }
+
+  private async delete(promptId: string): Promise<void> {
+    if (!window.confirm(TranslationManager.get('personal.deleteConfirm'))) {
+      return;
+    }
+
+    PersonalPromptManager.deletePrompt(promptId);
+    if (this.editingId === promptId) {
+      this.closeEditor();
+    }
+    await this.options.onChange();
+    this.render();
+    this.options.showStatus(TranslationManager.get('messages.personalDeleted'));
+  }
+}
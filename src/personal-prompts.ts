@@ -0,0 +1,190 @@
+/**
+ * Prompts written in the app, stored in localStorage and merged with the built-in prompts
+ */
+
+import { STORAGE_KEYS, PERSONAL_PROMPTS } from './constants.ts';
+import { findInChain, toCollection } from './prompt-data.ts';
+import { PromptSourceRegistry } from './prompt-source-registry.ts';
+import { PromptSource } from './prompt-sources.ts';
+import {
+  Prompt,
+  CategoryLabels,
+  CategoryAliases,
+  PromptCollection,
+  PersonalPrompt,
+  PersonalCategory,
+  PersonalLibrary
+} from './types.ts';
+import { hashString } from './utils.ts';
+
+export const PERSONAL_SOURCE_ID = 'personal';
+
+// A prompt as entered in the editor, without an ID for new prompts
+export type PersonalPromptInput = Pick<PersonalPrompt, 'category' | 'translations'> & { id?: string };
+
+/**
+ * The personal library as a prompt source, read from localStorage on every load
+ */
+export class PersonalPromptSource implements PromptSource {
+  readonly id = PERSONAL_SOURCE_ID;
+  readonly label = 'Personal prompts';
+
+  load(languages: string[]): Promise<PromptCollection> {
+    return Promise.resolve(PersonalPromptManager.buildCollection(languages));
+  }
+}
+
+export class PersonalPromptManager {
+  /**
+   * Gets all personal prompts and categories
+   * @returns The library or an empty library if not set/invalid
+   */
+  static getLibrary(): PersonalLibrary {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.PERSONAL_PROMPTS);
+      if (stored) {
+        const parsed = JSON.parse(stored) as Partial<PersonalLibrary>;
+        return {
+          prompts: Array.isArray(parsed.prompts) ? parsed.prompts : [],
+          categories: Array.isArray(parsed.categories) ? parsed.categories : [],
+        };
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read personal prompts from localStorage:', error);
+    }
+    return { prompts: [], categories: [] };
+  }
+
+  /**
+   * Gets a personal prompt with all its language variants
+   * @param promptId - The ID of the prompt
+   * @returns The prompt or null if there is none with this ID
+   */
+  static getPrompt(promptId: string): PersonalPrompt | null {
+    return this.getLibrary().prompts.find(prompt => prompt.id === promptId) ?? null;
+  }
+
+  /**
+   * Creates or updates a personal prompt
+   * @param input - The prompt, with the ID of an existing prompt to update it
+   * @param newCategoryName - Puts the prompt into the personal category with this name, created if needed
+   * @returns The saved prompt
+   */
+  static savePrompt(input: PersonalPromptInput, newCategoryName?: string): PersonalPrompt {
+    const library = this.getLibrary();
+    const now = Date.now();
+    const existing = input.id ? library.prompts.find(prompt => prompt.id === input.id) : undefined;
+
+    let category = input.category;
+    if (newCategoryName) {
+      const name = newCategoryName.trim();
+      let personalCategory = library.categories.find(other => other.name.toLowerCase() === name.toLowerCase());
+      if (!personalCategory) {
+        personalCategory = { id: this.createId(PERSONAL_PROMPTS.CATEGORY_PREFIX, now), name };
+        library.categories.push(personalCategory);
+      }
+      category = personalCategory.id;
+    }
+
+    const prompt: PersonalPrompt = {
+      // Never reuse the ID of a deleted prompt, favorites and journal entries still refer to it
+      id: existing ? existing.id : this.createId(PERSONAL_PROMPTS.ID_PREFIX, now),
+      category,
+      translations: input.translations,
+      createdAt: existing ? existing.createdAt : now,
+      updatedAt: now,
+    };
+
+    library.prompts = existing
+      ? library.prompts.map(other => other.id === prompt.id ? prompt : other)
+      : [...library.prompts, prompt];
+    this.saveLibrary(this.withoutUnusedCategories(library));
+    return prompt;
+  }
+
+  /**
+   * Deletes a personal prompt and its category if no other prompt uses it
+   * @param promptId - The ID of the prompt
+   */
+  static deletePrompt(promptId: string): void {
+    const library = this.getLibrary();
+    library.prompts = library.prompts.filter(prompt => prompt.id !== promptId);
+    this.saveLibrary(this.withoutUnusedCategories(library));
+  }
+
+  /**
+   * Checks whether a category was created in the app
+   * @param categoryId - The ID of the category
+   */
+  static isPersonalCategory(categoryId: string): boolean {
+    return categoryId.startsWith(PERSONAL_PROMPTS.CATEGORY_PREFIX);
+  }
+
+  /**
+   * Builds a collection of the personal prompts in a language
+   * @param languages - The fallback chain, requested language first
+   */
+  static buildCollection(languages: string[]): PromptCollection {
+    const library = this.getLibrary();
+    const labels: CategoryLabels = {};
+    const aliases: CategoryAliases = {};
+    const contentLanguages = new Set<string>();
+
+    library.categories.forEach(category => {
+      labels[category.id] = category.name;
+      aliases[category.name] = category.id;
+    });
+
+    const prompts: Prompt[] = [];
+    library.prompts.forEach(personalPrompt => {
+      const codes = Object.keys(personalPrompt.translations);
+      codes.forEach(code => contentLanguages.add(code.toUpperCase()));
+
+      // Prompts are often written in one language only, so show them in any language
+      const translation = findInChain(languages, code => personalPrompt.translations[code])
+        ?? (codes.length > 0 ? { language: codes[0].toUpperCase(), value: personalPrompt.translations[codes[0]] } : null);
+      if (!translation) {
+        return;
+      }
+
+      prompts.push({
+        id: personalPrompt.id,
+        category: personalPrompt.category,
+        prompt: translation.value.prompt.trim(),
+        purpose: translation.value.purpose.trim(),
+        language: translation.language,
+      });
+    });
+
+    return toCollection(prompts, labels, aliases, hashString(JSON.stringify(library)), [...contentLanguages]);
+  }
+
+  /**
+   * Registers the personal library as a prompt source after the built-in prompts
+   */
+  static registerSource(): void {
+    PromptSourceRegistry.register(new PersonalPromptSource());
+  }
+
+  // Unique across devices as well, so merging a backup from another device keeps both prompts
+  private static createId(prefix: string, now: number): string {
+    return `${prefix}${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private static withoutUnusedCategories(library: PersonalLibrary): PersonalLibrary {
+    const categories: PersonalCategory[] = library.categories
+      .filter(category => library.prompts.some(prompt => prompt.category === category.id));
+    return { prompts: library.prompts, categories };
+  }
+
+  private static saveLibrary(library: PersonalLibrary): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.PERSONAL_PROMPTS, JSON.stringify(library));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save personal prompts to localStorage:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Panel to enroll in guided programs and follow their days, and the banner above a prompt
+ * that is shown as the day of a program
+ */
+
+import { ProgramManager } from './programs.ts';
+import { TranslationManager } from './translations.ts';
+import { replaceIcon } from './icons.ts';
+import { getElementById } from './utils.ts';
+import { ELEMENT_IDS, CSS_CLASSES } from './constants.ts';
+import { Program, ProgramProgress, Programs } from './types.ts';
+
+export interface ProgramsPanelOptions {
+  getPrograms: () => Programs; // Programs of the loaded prompts, in the current language
+  onOpenDay: (programId: string, day: number) => void;
+  onDayCompleted: (programId: string) => void;
+  showStatus: (message: string) => void;
+}
+
+export class ProgramsPanel {
+  private panelEl: HTMLElement;
+  private titleEl: HTMLElement;
+  private progressEl: HTMLElement;
+  private listEl: HTMLElement;
+  private emptyEl: HTMLElement;
+  private leaveBtnEl: HTMLElement;
+  private closeBtnEl: HTMLElement;
+  private bannerEl: HTMLElement;
+  private bannerTitleEl: HTMLElement;
+  private dayTitleEl: HTMLElement;
+  private dayIntroEl: HTMLElement;
+  private completeBtnEl: HTMLElement;
+  private bannerDay: { program: Program; day: number } | null = null;
+
+  constructor(private options: ProgramsPanelOptions) {
+    this.panelEl = getElementById(ELEMENT_IDS.PROGRAMS_PANEL, 'Programs panel');
+    this.titleEl = getElementById(ELEMENT_IDS.PROGRAMS_TITLE, 'Programs title');
+    this.progressEl = getElementById(ELEMENT_IDS.PROGRAM_PROGRESS, 'Program progress');
+    this.listEl = getElementById(ELEMENT_IDS.PROGRAMS_LIST, 'Programs list');
+    this.emptyEl = getElementById(ELEMENT_IDS.PROGRAMS_EMPTY, 'Programs empty message');
+    this.leaveBtnEl = getElementById(ELEMENT_IDS.LEAVE_PROGRAM_BTN, 'Leave program button');
+    this.closeBtnEl = getElementById(ELEMENT_IDS.CLOSE_PROGRAMS_BTN, 'Close programs button');
+    this.bannerEl = getElementById(ELEMENT_IDS.PROGRAM_BANNER, 'Program banner');
+    this.bannerTitleEl = getElementById(ELEMENT_IDS.PROGRAM_BANNER_TITLE, 'Program banner title');
+    this.dayTitleEl = getElementById(ELEMENT_IDS.PROGRAM_DAY_TITLE, 'Program day title');
+    this.dayIntroEl = getElementById(ELEMENT_IDS.PROGRAM_DAY_INTRO, 'Program day intro');
+    this.completeBtnEl = getElementById(ELEMENT_IDS.COMPLETE_DAY_BTN, 'Complete day button');
+    replaceIcon(this.closeBtnEl, 'close');
+
+    this.leaveBtnEl.addEventListener('click', () => this.leave());
+    this.completeBtnEl.addEventListener('click', () => this.completeDay());
+    this.closeBtnEl.addEventListener('click', () => this.toggle());
+  }
+
+  /**
+   * Shows or hides the panel
+   */
+  toggle(): void {
+    const isHidden = this.panelEl.classList.toggle(CSS_CLASSES.HIDDEN);
+    if (!isHidden) {
+      this.render();
+    }
+  }
+
+  /**
+   * Shows the panel, e.g. to offer enrolling in a program opened from a link
+   */
+  show(): void {
+    this.panelEl.classList.remove(CSS_CLASSES.HIDDEN);
+    this.render();
+  }
+
+  /**
+   * Shows the banner for the day of a program the current prompt is shown for
+   * @param program - The program, null to hide the banner
+   * @param day - The 0-based day
+   */
+  showBanner(program: Program | null, day: number = 0): void {
+    this.bannerDay = program ? { program, day } : null;
+    this.renderBanner();
+  }
+
+  /**
+   * Updates all texts of the panel and the banner for the current language
+   */
+  updateUIText(): void {
+    this.titleEl.textContent = TranslationManager.get('programs.title');
+    this.emptyEl.textContent = TranslationManager.get('programs.empty');
+    this.leaveBtnEl.textContent = TranslationManager.get('programs.leave');
+    this.completeBtnEl.textContent = TranslationManager.get('programs.complete');
+    this.completeBtnEl.title = TranslationManager.get('programs.completeHint');
+    this.closeBtnEl.title = TranslationManager.get('buttons.closePanel');
+    this.renderBanner();
+    if (!this.panelEl.classList.contains(CSS_CLASSES.HIDDEN)) {
+      this.render();
+    }
+  }
+
+  private render(): void {
+    const programs = this.options.getPrograms();
+    const progress = ProgramManager.getProgress();
+    const activeProgram = progress ? programs[progress.programId] : undefined;
+    this.listEl.innerHTML = '';
+
+    if (progress && activeProgram) {
+      this.renderDays(activeProgram, progress);
+    } else {
+      this.renderPrograms(Object.values(programs));
+    }
+    this.leaveBtnEl.classList.toggle(CSS_CLASSES.HIDDEN, !activeProgram);
+  }
+
+  private renderPrograms(programs: Program[]): void {
+    this.emptyEl.classList.toggle(CSS_CLASSES.HIDDEN, programs.length > 0);
+    this.progressEl.textContent = TranslationManager.get('programs.hint');
+    this.progressEl.classList.toggle(CSS_CLASSES.HIDDEN, programs.length === 0);
+
+    programs.forEach(program => {
+      const item = document.createElement('li');
+      item.className = 'panel-list-item with-action';
+
+      const title = document.createElement('span');
+      title.className = 'panel-list-text';
+      title.textContent = program.title;
+
+      const meta = document.createElement('span');
+      meta.className = 'panel-list-meta';
+      meta.textContent = [TranslationManager.plural('programs.days', program.days.length), program.intro]
+        .filter(Boolean)
+        .join(' · ');
+
+      const startBtn = document.createElement('button');
+      startBtn.className = 'settings-action-btn';
+      startBtn.textContent = TranslationManager.get('programs.start');
+      startBtn.addEventListener('click', () => {
+        ProgramManager.enroll(program.id);
+        this.options.showStatus(TranslationManager.get('messages.programStarted', { name: program.title }));
+        this.options.onOpenDay(program.id, 0);
+        this.render();
+      });
+
+      item.append(title, meta, startBtn);
+      this.listEl.appendChild(item);
+    });
+  }
+
+  private renderDays(program: Program, progress: ProgramProgress): void {
+    const dayCount = program.days.length;
+    this.emptyEl.classList.add(CSS_CLASSES.HIDDEN);
+    this.progressEl.classList.remove(CSS_CLASSES.HIDDEN);
+    this.progressEl.textContent = ProgramManager.isFinished(progress, program)
+      ? `${program.title} · ${TranslationManager.get('programs.finished')}`
+      : [
+        program.title,
+        TranslationManager.get('programs.progress', { day: ProgramManager.getScheduledDay(progress, dayCount) + 1, total: dayCount }),
+        TranslationManager.plural('programs.completed', progress.completedDays.length),
+      ].join(' · ');
+
+    program.days.forEach((programDay, day) => {
+      const status = ProgramManager.getDayStatus(progress, day, program);
+      const canOpen = status !== 'upcoming' && status !== 'unavailable';
+      const item = document.createElement('li');
+      item.className = 'panel-list-item';
+      item.classList.toggle('disabled', !canOpen);
+
+      // Upcoming days open once they are due
+      const label = TranslationManager.get('programs.dayLabel', { day: day + 1, title: programDay.title });
+      const text = document.createElement(canOpen ? 'button' : 'span');
+      text.className = 'panel-list-text';
+      text.textContent = label;
+      if (canOpen) {
+        text.addEventListener('click', () => this.options.onOpenDay(program.id, day));
+      }
+
+      const meta = document.createElement('span');
+      meta.className = 'panel-list-meta';
+      meta.textContent = TranslationManager.get(`programs.status.${status}`);
+
+      item.append(text, meta);
+      this.listEl.appendChild(item);
+    });
+  }
+
+  private renderBanner(): void {
+    this.bannerEl.classList.toggle(CSS_CLASSES.HIDDEN, !this.bannerDay);
+    if (!this.bannerDay) {
+      return;
+    }
+
+    const { program, day } = this.bannerDay;
+    const programDay = program.days[day];
+    this.bannerTitleEl.textContent = `${program.title} · ${TranslationManager.get('programs.progress', { day: day + 1, total: program.days.length })}`;
+    this.dayTitleEl.textContent = programDay.title;
+    this.dayTitleEl.classList.toggle(CSS_CLASSES.HIDDEN, !programDay.title);
+    this.dayIntroEl.textContent = programDay.intro ?? '';
+    this.dayIntroEl.classList.toggle(CSS_CLASSES.HIDDEN, !programDay.intro);
+
+    // Only days of the own program that are due or missed can be marked as done
+    const progress = ProgramManager.getProgress();
+    const status = progress?.programId === program.id
+      ? ProgramManager.getDayStatus(progress, day, program)
+      : null;
+    this.completeBtnEl.classList.toggle(CSS_CLASSES.HIDDEN, status !== 'due' && status !== 'missed');
+  }
+
+  private completeDay(): void {
+    if (!this.bannerDay) {
+      return;
+    }
+
+    const { program, day } = this.bannerDay;
+    ProgramManager.completeDay(day);
+    this.renderBanner();
+    if (!this.panelEl.classList.contains(CSS_CLASSES.HIDDEN)) {
+      this.render();
+    }
+    this.options.onDayCompleted(program.id);
+  }
+
+  private leave(): void {
+    const progress = ProgramManager.getProgress();
+    const program = progress ? this.options.getPrograms()[progress.programId] : undefined;
+    if (!program || !window.confirm(TranslationManager.get('programs.leaveConfirm', { name: program.title }))) {
+      return;
+    }
+
+    ProgramManager.leave();
+    this.options.showStatus(TranslationManager.get('messages.programLeft'));
+    this.renderBanner();
+    this.render();
+  }
+}
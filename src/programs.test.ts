@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProgramManager } from './programs.ts';
+import { Program, ProgramProgress } from './types.ts';
+
+const PROGRAM: Program = {
+  id: 'gratitude',
+  title: 'Gratitude week',
+  days: [
+    { promptId: 'BIO1', title: 'Day 1' },
+    { promptId: 'GONE1', title: 'Day 2', unavailable: true },
+    { promptId: 'BIO2', title: 'Day 3' },
+    { promptId: 'WRK1', title: 'Day 4' },
+  ],
+};
+
+function createProgress(startedOn: string, completedDays: number[] = []): ProgramProgress {
+  return { programId: PROGRAM.id, startedOn, completedDays };
+}
+
+describe('ProgramManager', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 2, 12, 9));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('schedules one day per calendar day, staying on the last day', () => {
+    expect(ProgramManager.getScheduledDay(createProgress('2025-03-12'), 4)).toBe(0);
+    expect(ProgramManager.getScheduledDay(createProgress('2025-03-10'), 4)).toBe(2);
+    expect(ProgramManager.getScheduledDay(createProgress('2025-02-01'), 4)).toBe(3);
+    expect(ProgramManager.getScheduledDay(createProgress('2025-03-20'), 4)).toBe(0);
+  });
+
+  it('offers missed days first and skips unavailable ones', () => {
+    expect(ProgramManager.getPendingDay(createProgress('2025-03-10'), PROGRAM)).toBe(0);
+    expect(ProgramManager.getPendingDay(createProgress('2025-03-10', [0]), PROGRAM)).toBe(2);
+    expect(ProgramManager.getPendingDay(createProgress('2025-03-11', [0]), PROGRAM)).toBeNull();
+    expect(ProgramManager.getPendingDay(createProgress('2025-03-10', [0, 2]), PROGRAM)).toBeNull();
+  });
+
+  it('tells the status of every day', () => {
+    const progress = createProgress('2025-03-10', [0]);
+    expect(PROGRAM.days.map((_, day) => ProgramManager.getDayStatus(progress, day, PROGRAM)))
+      .toEqual(['done', 'unavailable', 'due', 'upcoming']);
+    expect(ProgramManager.getDayStatus(createProgress('2025-03-09'), 2, PROGRAM)).toBe('missed');
+  });
+
+  it('finishes once every available day is done', () => {
+    expect(ProgramManager.isFinished(createProgress('2025-03-01', [0, 2]), PROGRAM)).toBe(false);
+    expect(ProgramManager.isFinished(createProgress('2025-03-01', [0, 2, 3]), PROGRAM)).toBe(true);
+  });
+
+  it('keeps the progress of the enrollment', () => {
+    ProgramManager.enroll(PROGRAM.id);
+    ProgramManager.completeDay(2);
+    ProgramManager.completeDay(0);
+    ProgramManager.completeDay(2);
+
+    expect(ProgramManager.getProgress()).toEqual(createProgress('2025-03-12', [0, 2]));
+
+    ProgramManager.leave();
+    expect(ProgramManager.getProgress()).toBeNull();
+  });
+});
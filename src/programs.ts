@@ -0,0 +1,134 @@
+/**
+ * Enrollment in guided programs (programs: in journal-prompts.yaml) with progress kept in
+ * localStorage. A program advances one day per calendar day; missed days stay open to catch up.
+ */
+
+import { STORAGE_KEYS } from './constants.ts';
+import { getDateKey } from './daily-prompt.ts';
+import { Program, ProgramProgress } from './types.ts';
+
+export type ProgramDayStatus = 'done' | 'due' | 'missed' | 'upcoming' | 'unavailable';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ProgramManager {
+  /**
+   * Gets the program the user is enrolled in
+   * @returns The progress or null if not enrolled/invalid
+   */
+  static getProgress(): ProgramProgress | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.PROGRAM_PROGRESS);
+      if (stored) {
+        const parsed = JSON.parse(stored) as Partial<ProgramProgress> | null;
+        if (parsed && typeof parsed.programId === 'string' && typeof parsed.startedOn === 'string' && Array.isArray(parsed.completedDays)) {
+          return parsed as ProgramProgress;
+        }
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read program progress from localStorage:', error);
+    }
+    return null;
+  }
+
+  /**
+   * Enrolls in a program starting today, leaving the current one
+   * @param programId - The ID of the program
+   */
+  static enroll(programId: string): ProgramProgress {
+    const progress: ProgramProgress = { programId, startedOn: this.getToday(), completedDays: [] };
+    this.saveProgress(progress);
+    return progress;
+  }
+
+  /**
+   * Leaves the current program and forgets its progress
+   */
+  static leave(): void {
+    try {
+      localStorage.removeItem(STORAGE_KEYS.PROGRAM_PROGRESS);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to remove program progress from localStorage:', error);
+    }
+  }
+
+  /**
+   * Marks a day of the current program as done
+   * @param day - The 0-based day
+   */
+  static completeDay(day: number): void {
+    const progress = this.getProgress();
+    if (progress && !progress.completedDays.includes(day)) {
+      this.saveProgress({ ...progress, completedDays: [...progress.completedDays, day].sort((a, b) => a - b) });
+    }
+  }
+
+  /**
+   * Gets the day that is due today: one day per calendar day since enrolling
+   * @param progress - The enrollment
+   * @param dayCount - The number of days of the program
+   */
+  static getScheduledDay(progress: ProgramProgress, dayCount: number): number {
+    const elapsed = Math.round((Date.parse(this.getToday()) - Date.parse(progress.startedOn)) / DAY_MS);
+    return Math.max(0, Math.min(elapsed || 0, dayCount - 1));
+  }
+
+  /**
+   * Gets the next day to write about, missed days first so they can be caught up in order
+   * @param progress - The enrollment
+   * @param program - The program, whose unavailable days are left out
+   * @returns The 0-based day or null if every day up to today is done
+   */
+  static getPendingDay(progress: ProgramProgress, program: Program): number | null {
+    const scheduledDay = this.getScheduledDay(progress, program.days.length);
+    for (let day = 0; day <= scheduledDay; day++) {
+      if (!progress.completedDays.includes(day) && !program.days[day].unavailable) {
+        return day;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Gets the status of a day of the program
+   * @param progress - The enrollment
+   * @param day - The 0-based day
+   * @param program - The program
+   */
+  static getDayStatus(progress: ProgramProgress, day: number, program: Program): ProgramDayStatus {
+    if (progress.completedDays.includes(day)) {
+      return 'done';
+    }
+    if (program.days[day]?.unavailable) {
+      return 'unavailable';
+    }
+    const scheduledDay = this.getScheduledDay(progress, program.days.length);
+    if (day === scheduledDay) {
+      return 'due';
+    }
+    return day < scheduledDay ? 'missed' : 'upcoming';
+  }
+
+  /**
+   * Checks whether every available day of the program is done
+   */
+  static isFinished(progress: ProgramProgress, program: Program): boolean {
+    return program.days.every((programDay, day) => programDay.unavailable || progress.completedDays.includes(day));
+  }
+
+  private static getToday(): string {
+    // Days follow the local calendar, like the prompt of the day by default
+    return getDateKey(new Date(), 'local');
+  }
+
+  private static saveProgress(progress: ProgramProgress): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.PROGRAM_PROGRESS, JSON.stringify(progress));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save program progress to localStorage:', error);
+    }
+  }
+}
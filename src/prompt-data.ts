@@ -0,0 +1,262 @@
+/**
+ * Conversion of parsed prompt data to a prompt collection, shared by the YAML parser and
+ * prompt packs. Free of js-yaml, so the app can use it without the parser.
+ */
+
+import { AVAILABLE_PROMPT_DEPTHS, AVAILABLE_TIMES_OF_DAY, type PromptDepth, type TimeOfDay } from './constants.ts';
+import { fillSlots, SlotValues } from './prompt-template.ts';
+import {
+  Prompt,
+  PromptMetadata,
+  FollowUp,
+  CategoryGroup,
+  CategoryLabels,
+  CategoryAliases,
+  PromptCollection,
+  CleanPromptsData,
+  PromptTranslation,
+  TemplateSlots,
+  Programs,
+  ProgramDay,
+  ProgramTranslation
+} from './types.ts';
+
+/**
+ * Picks the first language of the fallback chain that has a value
+ * @param languages - The fallback chain, requested language first
+ * @param lookup - Returns the value for a lower-case language code or undefined if missing
+ */
+export function findInChain<T>(languages: string[], lookup: (languageCode: string) => T | undefined): { language: string; value: T } | null {
+  for (const language of languages) {
+    const value = lookup(language.toLowerCase());
+    if (value !== undefined) {
+      return { language, value };
+    }
+  }
+  return null;
+}
+
+// Keys of a prompt in the YAML that are no language codes
+export const PROMPT_METADATA_KEYS = ['id', 'category_id', 'tags', 'minutes', 'depth', 'time_of_day'];
+
+/**
+ * Reads the optional metadata of a prompt in the YAML, ignoring invalid values
+ * @param prompt - A prompt in the clean or nested structure
+ */
+export function readMetadata(prompt: Record<string, unknown>): PromptMetadata {
+  const metadata: PromptMetadata = {};
+
+  if (Array.isArray(prompt.tags)) {
+    const tags = prompt.tags
+      .filter((tag): tag is string => typeof tag === 'string' && !!tag.trim())
+      .map(tag => tag.trim().toLowerCase());
+    if (tags.length > 0) {
+      metadata.tags = [...new Set(tags)];
+    }
+  }
+  if (typeof prompt.minutes === 'number' && prompt.minutes > 0) {
+    metadata.minutes = prompt.minutes;
+  }
+  if (AVAILABLE_PROMPT_DEPTHS.includes(prompt.depth as PromptDepth)) {
+    metadata.depth = prompt.depth as PromptDepth;
+  }
+  if (Array.isArray(prompt.time_of_day)) {
+    const times = prompt.time_of_day.filter((time): time is TimeOfDay => AVAILABLE_TIMES_OF_DAY.includes(time as TimeOfDay));
+    if (times.length > 0) {
+      metadata.timeOfDay = times;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Picks the values of every template slot for the language of a prompt text
+ * @param slots - The slots of the YAML, if any
+ * @param language - The upper-case language the prompt text is in
+ * @param languages - The fallback chain for slots without values in that language
+ */
+export function readSlots(slots: TemplateSlots | undefined, language: string, languages: string[]): SlotValues {
+  const values: SlotValues = {};
+  Object.entries(slots ?? {}).forEach(([name, translations]) => {
+    const found = findInChain([language, ...languages], code => {
+      const list: unknown = translations?.[code];
+      return Array.isArray(list)
+        ? list.filter((value): value is string => typeof value === 'string' && !!value.trim()).map(value => value.trim())
+        : undefined;
+    });
+    if (found) {
+      values[name] = found.value;
+    }
+  });
+  return values;
+}
+
+/**
+ * Reads the texts of a prompt translation, keeping only the follow-up questions that have text
+ * @param translation - The translation in the YAML
+ * @param slots - Values of the template slots in the language of the translation
+ */
+export function readTexts(translation: PromptTranslation, slots: SlotValues = {}): Pick<Prompt, 'prompt' | 'purpose' | 'followUps'> {
+  const texts: Pick<Prompt, 'prompt' | 'purpose' | 'followUps'> = {
+    // Alternatives ({a|b}) stay in the text and are picked when the prompt is shown
+    prompt: fillSlots(translation.prompt.trim(), slots),
+    purpose: translation.purpose.trim(),
+  };
+
+  if (Array.isArray(translation.follow_ups)) {
+    const followUps: FollowUp[] = [];
+    (translation.follow_ups as unknown[]).forEach(value => {
+      const followUp = value as Partial<FollowUp> | null;
+      if (typeof followUp?.question !== 'string' || !followUp.question.trim()) {
+        return;
+      }
+      followUps.push(typeof followUp.hint === 'string' && followUp.hint.trim()
+        ? { question: followUp.question.trim(), hint: followUp.hint.trim() }
+        : { question: followUp.question.trim() });
+    });
+    if (followUps.length > 0) {
+      texts.followUps = followUps;
+    }
+  }
+
+  return texts;
+}
+
+function isPromptTranslation(value: unknown): value is PromptTranslation {
+  const translation = value as PromptTranslation | undefined;
+  return !!translation && typeof translation === 'object' && !!translation.prompt && !!translation.purpose;
+}
+
+/**
+ * Builds a collection from data in the clean structure
+ * @param data - Categories keyed by ID, with names and prompts per language
+ * @param languages - The fallback chain, requested language first
+ * @param fingerprint - Changes whenever the data changes
+ * @throws Error if the data has no categories
+ */
+export function buildCleanCollection(data: CleanPromptsData, languages: string[], fingerprint: string): PromptCollection {
+  if (!data || !data.categories || typeof data.categories !== 'object') {
+    throw new Error('Invalid clean prompts data structure - missing categories');
+  }
+
+  const prompts: Prompt[] = [];
+  const labels: CategoryLabels = {};
+  const aliases: CategoryAliases = {};
+  const contentLanguages = new Set<string>();
+
+  // Process each category
+  for (const [categoryId, category] of Object.entries(data.categories)) {
+    if (!category.prompts || !Array.isArray(category.prompts)) {
+      // eslint-disable-next-line no-console
+      console.warn(`Category ${categoryId} missing prompts array, skipping`);
+      continue;
+    }
+
+    // Get category name along the fallback chain
+    const label = findInChain(languages, code => {
+      const name = category[code];
+      return typeof name === 'string' ? name : undefined;
+    });
+    labels[categoryId] = label ? label.value : categoryId;
+
+    // Remember the names in every language so legacy name-based links still resolve
+    for (const [key, value] of Object.entries(category)) {
+      if (key !== 'prompts' && typeof value === 'string') {
+        aliases[value] = categoryId;
+      }
+    }
+
+    // Process each prompt in this category
+    for (const cleanPrompt of category.prompts) {
+      Object.keys(cleanPrompt)
+        .filter(key => !PROMPT_METADATA_KEYS.includes(key))
+        .forEach(key => contentLanguages.add(key.toUpperCase()));
+
+      const translation = findInChain(languages, code => {
+        const value = cleanPrompt[code];
+        return isPromptTranslation(value) ? value : undefined;
+      });
+      if (!translation) {
+        // eslint-disable-next-line no-console
+        console.warn(`No translation available for prompt ${categoryId}${cleanPrompt.id}, skipping`);
+        continue;
+      }
+
+      prompts.push({
+        id: `${categoryId}${cleanPrompt.id}`, // Reconstruct combined ID for compatibility
+        category: categoryId,
+        ...readTexts(translation.value, readSlots(data.slots, translation.language, languages)),
+        language: translation.language,
+        ...readMetadata(cleanPrompt),
+      });
+    }
+  }
+
+  const programs = readPrograms(data.programs, languages, prompts);
+  return toCollection(prompts, labels, aliases, fingerprint, [...contentLanguages], programs);
+}
+
+/**
+ * Reads the programs in the language of the fallback chain. Days whose prompt is missing keep
+ * their place, so the days after them don't move, and are marked as unavailable.
+ * @param programs - The programs of the YAML, if any
+ * @param languages - The fallback chain, requested language first
+ * @param prompts - The prompts of the same file
+ */
+export function readPrograms(programs: CleanPromptsData['programs'], languages: string[], prompts: Prompt[]): Programs {
+  const promptIds = new Set(prompts.map(prompt => prompt.id));
+  const result: Programs = {};
+
+  Object.entries(programs ?? {}).forEach(([programId, program]) => {
+    if (!program || !Array.isArray(program.days)) {
+      return;
+    }
+
+    const days: ProgramDay[] = program.days.map(day => {
+      if (!day || !promptIds.has(day.prompt)) {
+        return { promptId: day?.prompt ?? '', title: '', unavailable: true };
+      }
+      const texts = findInChain(languages, code => toProgramTranslation(day[code]));
+      return { promptId: day.prompt, title: '', ...texts?.value };
+    });
+    if (days.every(day => day.unavailable)) {
+      return;
+    }
+
+    const texts = findInChain(languages, code => toProgramTranslation(program[code]));
+    result[programId] = { id: programId, title: programId, ...texts?.value, days };
+  });
+
+  return result;
+}
+
+function toProgramTranslation(value: unknown): ProgramTranslation | undefined {
+  const translation = value as Partial<ProgramTranslation> | undefined;
+  if (!translation || typeof translation !== 'object' || typeof translation.title !== 'string' || !translation.title.trim()) {
+    return undefined;
+  }
+  return typeof translation.intro === 'string' && translation.intro.trim()
+    ? { title: translation.title.trim(), intro: translation.intro.trim() }
+    : { title: translation.title.trim() };
+}
+
+// Groups prompts by category, the same for every structure
+export function toCollection(
+  prompts: Prompt[],
+  labels: CategoryLabels,
+  aliases: CategoryAliases,
+  fingerprint: string,
+  languages: string[],
+  programs: Programs = {}
+): PromptCollection {
+  const grouped: CategoryGroup = {};
+  prompts.forEach(prompt => {
+    if (!grouped[prompt.category]) {
+      grouped[prompt.category] = [];
+    }
+    grouped[prompt.category].push(prompt);
+  });
+
+  return { groups: grouped, labels, aliases, fingerprint, languages, programs };
+}
@@ -0,0 +1,150 @@
+/**
+ * Filtering prompts by their metadata (tags, writing time, depth, time of day), encoded in the URL
+ * as ?tags=gratitude,work&depth=deep&minutes=10&time=evening
+ */
+
+import { AVAILABLE_PROMPT_DEPTHS, AVAILABLE_TIMES_OF_DAY, type PromptDepth, type TimeOfDay } from './constants.ts';
+import { CategoryGroup, Prompt } from './types.ts';
+
+export interface PromptFilter {
+  tags: string[]; // Prompts with any of these tags
+  maxMinutes: number | null;
+  depth: PromptDepth | null;
+  timeOfDay: TimeOfDay | null;
+}
+
+// Values found in the loaded prompts, offered in the filter panel
+export interface FilterOptions {
+  tags: string[];
+  minutes: number[];
+  depths: PromptDepth[];
+  timesOfDay: TimeOfDay[];
+}
+
+const URL_PARAMS = {
+  TAGS: 'tags',
+  MINUTES: 'minutes',
+  DEPTH: 'depth',
+  TIME_OF_DAY: 'time',
+} as const;
+
+export const EMPTY_FILTER: PromptFilter = { tags: [], maxMinutes: null, depth: null, timeOfDay: null };
+
+/**
+ * Checks whether a filter narrows the prompts at all
+ */
+export function isFilterActive(filter: PromptFilter): boolean {
+  return filter.tags.length > 0 || filter.maxMinutes !== null || filter.depth !== null || filter.timeOfDay !== null;
+}
+
+/**
+ * Checks whether a prompt matches every set criterion of a filter
+ * @param prompt - The prompt
+ * @param filter - The filter
+ */
+export function matchesFilter(prompt: Prompt, filter: PromptFilter): boolean {
+  if (filter.tags.length > 0 && !filter.tags.some(tag => prompt.tags?.includes(tag))) {
+    return false;
+  }
+  // Prompts without an estimate don't promise to be short
+  if (filter.maxMinutes !== null && (prompt.minutes === undefined || prompt.minutes > filter.maxMinutes)) {
+    return false;
+  }
+  if (filter.depth !== null && prompt.depth !== filter.depth) {
+    return false;
+  }
+  // Prompts without a time of day suit any time
+  if (filter.timeOfDay !== null && prompt.timeOfDay && !prompt.timeOfDay.includes(filter.timeOfDay)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Keeps the matching prompts of every category, dropping categories without matches
+ * @param groups - All loaded prompts by category ID
+ * @param filter - The filter
+ */
+export function filterGroups(groups: CategoryGroup, filter: PromptFilter): CategoryGroup {
+  if (!isFilterActive(filter)) {
+    return groups;
+  }
+
+  const filtered: CategoryGroup = {};
+  Object.entries(groups).forEach(([categoryId, prompts]) => {
+    const matching = prompts.filter(prompt => matchesFilter(prompt, filter));
+    if (matching.length > 0) {
+      filtered[categoryId] = matching;
+    }
+  });
+  return filtered;
+}
+
+/**
+ * Counts the prompts of all categories
+ */
+export function countPrompts(groups: CategoryGroup): number {
+  return Object.values(groups).reduce((count, prompts) => count + prompts.length, 0);
+}
+
+/**
+ * Collects the metadata values of the loaded prompts, sorted
+ * @param groups - All loaded prompts by category ID
+ */
+export function getFilterOptions(groups: CategoryGroup): FilterOptions {
+  const prompts = Object.values(groups).flat();
+  const tags = new Set(prompts.flatMap(prompt => prompt.tags ?? []));
+  const minutes = new Set(prompts.flatMap(prompt => prompt.minutes === undefined ? [] : [prompt.minutes]));
+  const depths = new Set(prompts.map(prompt => prompt.depth));
+  const timesOfDay = new Set(prompts.flatMap(prompt => prompt.timeOfDay ?? []));
+
+  return {
+    tags: [...tags].sort(),
+    minutes: [...minutes].sort((a, b) => a - b),
+    depths: AVAILABLE_PROMPT_DEPTHS.filter(depth => depths.has(depth)),
+    timesOfDay: AVAILABLE_TIMES_OF_DAY.filter(time => timesOfDay.has(time)),
+  };
+}
+
+/**
+ * Reads a filter from URL parameters, ignoring invalid values
+ * @param params - The parameters of the page URL
+ */
+export function readFilterParams(params: URLSearchParams): PromptFilter {
+  const tags = (params.get(URL_PARAMS.TAGS) ?? '')
+    .split(',')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(Boolean);
+  const minutes = Number(params.get(URL_PARAMS.MINUTES));
+  const depth = params.get(URL_PARAMS.DEPTH) as PromptDepth | null;
+  const timeOfDay = params.get(URL_PARAMS.TIME_OF_DAY) as TimeOfDay | null;
+
+  return {
+    tags,
+    maxMinutes: minutes > 0 ? minutes : null,
+    depth: depth && AVAILABLE_PROMPT_DEPTHS.includes(depth) ? depth : null,
+    timeOfDay: timeOfDay && AVAILABLE_TIMES_OF_DAY.includes(timeOfDay) ? timeOfDay : null,
+  };
+}
+
+/**
+ * Writes a filter to URL parameters, removing the parameters of unset criteria
+ * @param params - The parameters to update
+ * @param filter - The filter
+ */
+export function writeFilterParams(params: URLSearchParams, filter: PromptFilter): void {
+  const values: Array<[string, string | null]> = [
+    [URL_PARAMS.TAGS, filter.tags.length > 0 ? filter.tags.join(',') : null],
+    [URL_PARAMS.MINUTES, filter.maxMinutes !== null ? String(filter.maxMinutes) : null],
+    [URL_PARAMS.DEPTH, filter.depth],
+    [URL_PARAMS.TIME_OF_DAY, filter.timeOfDay],
+  ];
+
+  values.forEach(([name, value]) => {
+    if (value === null) {
+      params.delete(name);
+    } else {
+      params.set(name, value);
+    }
+  });
+}
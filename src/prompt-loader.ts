@@ -0,0 +1,48 @@
+/**
+ * Loading of prompts from all registered sources and lookups in the loaded prompts
+ */
+
+import { PromptSourceRegistry } from './prompt-source-registry.ts';
+import { DEFAULTS } from './constants.ts';
+import { Prompt, CategoryGroup, PromptCollection } from './types.ts';
+
+/**
+ * Loads the prompts for a language from all registered sources
+ * @param languages - The fallback chain, requested language first
+ * @returns The merged prompts, see PromptSourceRegistry for the conflict policy
+ */
+export async function loadPrompts(languages: string[] = [DEFAULTS.LANGUAGE]): Promise<PromptCollection> {
+  try {
+    return await PromptSourceRegistry.load(languages);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error('Error loading prompts:', error);
+    throw error;
+  }
+}
+
+export function resolveCategoryId(collection: PromptCollection, value: string): string | null {
+  if (collection.groups[value]) {
+    return value;
+  }
+
+  // Accept IDs regardless of case, then category names in any language (legacy links)
+  const needle = value.toLowerCase();
+  const matchingId = Object.keys(collection.groups).find(id => id.toLowerCase() === needle);
+  if (matchingId) {
+    return matchingId;
+  }
+
+  const matchingName = Object.keys(collection.aliases).find(name => name.toLowerCase() === needle);
+  return matchingName ? collection.aliases[matchingName] : null;
+}
+
+export function findPromptById(categoryGroups: CategoryGroup, id: string): Prompt | null {
+  for (const category in categoryGroups) {
+    const prompt = categoryGroups[category].find(p => p.id === id);
+    if (prompt) {
+      return prompt;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PromptSelector } from './prompt-selector.ts';
+import { Prompt } from './types.ts';
+
+function createPrompts(count: number): Prompt[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `BIO${index + 1}`,
+    category: 'BIO',
+    prompt: `Prompt ${index + 1}`,
+    purpose: '',
+    language: 'EN',
+  }));
+}
+
+// Draws a number of prompts and returns their IDs
+function drawIds(prompts: Prompt[], count: number, matches?: (prompt: Prompt) => boolean): string[] {
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const prompt = PromptSelector.draw('BIO', prompts, ids[ids.length - 1], matches);
+    if (prompt) {
+      ids.push(prompt.id);
+    }
+  }
+  return ids;
+}
+
+describe('PromptSelector.draw', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    PromptSelector.initialize('prompts-v1');
+  });
+
+  it('deals every prompt once before repeating', () => {
+    const prompts = createPrompts(5);
+    expect(new Set(drawIds(prompts, 5)).size).toBe(5);
+  });
+
+  it('keeps prompts skipped by a filter for later in the round', () => {
+    const prompts = createPrompts(6);
+    const evenOnly = (prompt: Prompt): boolean => Number(prompt.id.slice(3)) % 2 === 0;
+
+    const filtered = drawIds(prompts, 3, evenOnly);
+    const rest = drawIds(prompts, 3);
+
+    expect(filtered.sort()).toEqual(['BIO2', 'BIO4', 'BIO6']);
+    expect(rest.sort()).toEqual(['BIO1', 'BIO3', 'BIO5']);
+  });
+
+  it('repeats a matching prompt without ending the round once all matching prompts were dealt', () => {
+    const prompts = createPrompts(4);
+    const firstOnly = (prompt: Prompt): boolean => prompt.id === 'BIO1';
+
+    expect(drawIds(prompts, 2, firstOnly)).toEqual(['BIO1', 'BIO1']);
+    expect(drawIds(prompts, 3).sort()).toEqual(['BIO2', 'BIO3', 'BIO4']);
+  });
+
+  it('keeps the round when prompts disappear and come back', () => {
+    const prompts = createPrompts(4);
+
+    // E.g. a pack with the last two prompts is disabled for a while
+    const dealt = drawIds(prompts.slice(0, 2), 2);
+    const rest = drawIds(prompts, 2);
+
+    expect([...dealt, ...rest].sort()).toEqual(['BIO1', 'BIO2', 'BIO3', 'BIO4']);
+  });
+
+  it('adds new prompts to the running round', () => {
+    const prompts = createPrompts(3);
+    const dealt = drawIds(prompts.slice(0, 2), 1);
+    const rest = drawIds(prompts, 2);
+
+    expect([...dealt, ...rest].sort()).toEqual(['BIO1', 'BIO2', 'BIO3']);
+  });
+
+  it('returns undefined if no prompt is left', () => {
+    expect(PromptSelector.draw('BIO', [])).toBeUndefined();
+    expect(PromptSelector.draw('BIO', createPrompts(2), undefined, () => false)).toBeUndefined();
+  });
+
+  it('keeps the bags if the fingerprint is unknown', () => {
+    const prompts = createPrompts(3);
+    const dealt = drawIds(prompts, 2);
+
+    PromptSelector.initialize('');
+    expect(drawIds(prompts, 1)).not.toContain(dealt[0]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * No-repeat prompt selection based on shuffle bags persisted in localStorage.
+ * Every prompt in a scope (one category or all categories) is dealt once
+ * before any prompt repeats.
+ */
+
+import { STORAGE_KEYS, type SelectionStrategy } from './constants.ts';
+import { CategoryGroup, Prompt } from './types.ts';
+
+interface ShuffleBagState {
+  fingerprint: string;
+  bags: {
+    [scope: string]: string[]; // Prompt IDs not yet dealt in this scope
+  };
+  dealt: {
+    [scope: string]: string[]; // Prompt IDs dealt in the current round of this scope
+  };
+  visits: {
+    [categoryId: string]: number; // Timestamp of the last prompt shown per category
+  };
+}
+
+export const ALL_CATEGORIES_SCOPE = '*';
+export const FAVORITES_SCOPE = 'favorites';
+
+// Decides which prompts of a scope may be dealt, e.g. those matching the filter
+export type PromptMatcher = (prompt: Prompt) => boolean;
+
+const MATCH_ALL: PromptMatcher = () => true;
+
+export class PromptSelector {
+  private static state: ShuffleBagState = { fingerprint: '', bags: {}, dealt: {}, visits: {} };
+
+  /**
+   * Loads the stored bags and discards them if the prompt file changed
+   * @param fingerprint - Hash identifying the currently loaded prompt file, empty if unknown
+   */
+  static initialize(fingerprint: string): void {
+    this.state = this.readState();
+
+    if (fingerprint && this.state.fingerprint !== fingerprint) {
+      this.state = { fingerprint, bags: {}, dealt: {}, visits: {} };
+      this.saveState();
+    }
+  }
+
+  /**
+   * Deals the next prompt of a scope, refilling the bag once every prompt was dealt.
+   *
+   * The bag always covers the whole scope: prompts that don't match are skipped but stay in it,
+   * so narrowing the scope for a while doesn't make prompts repeat afterwards. IDs of prompts
+   * that are gone (e.g. of a disabled pack) also stay until the round ends, and prompts added
+   * during a round join it.
+   *
+   * @param scope - Category ID or ALL_CATEGORIES_SCOPE
+   * @param prompts - All prompts belonging to the scope
+   * @param avoidId - Prompt that should not come up next (e.g. the one on screen)
+   * @param matches - Which prompts may be dealt now
+   * @returns The prompt or undefined if no prompt of the scope matches
+   */
+  static draw(scope: string, prompts: Prompt[], avoidId?: string, matches: PromptMatcher = MATCH_ALL): Prompt | undefined {
+    const promptsById = new Map(prompts.map(prompt => [prompt.id, prompt]));
+    let bag = [...this.state.bags[scope] || []];
+    // Bags stored before rounds were tracked count every prompt outside the bag as dealt
+    let dealt = this.state.dealt[scope] || prompts.map(prompt => prompt.id).filter(id => !bag.includes(id));
+
+    const inRound = new Set([...bag, ...dealt]);
+    prompts
+      .filter(prompt => !inRound.has(prompt.id))
+      .forEach(prompt => bag.splice(Math.floor(Math.random() * (bag.length + 1)), 0, prompt.id));
+
+    // The round ends once every prompt that is still there was dealt; only then obsolete IDs go
+    if (!bag.some(id => promptsById.has(id))) {
+      bag = this.shuffle(prompts.map(prompt => prompt.id));
+      dealt = [];
+    }
+
+    const candidates = bag.filter(id => {
+      const prompt = promptsById.get(id);
+      return prompt !== undefined && matches(prompt);
+    });
+    // Avoid a back-to-back repeat, also across refills
+    let nextId = candidates.find(id => id !== avoidId) ?? candidates[0];
+    if (nextId !== undefined) {
+      bag = bag.filter(id => id !== nextId);
+      dealt = [...dealt, nextId];
+    } else {
+      // Every matching prompt was dealt this round: repeat one without ending the round for the rest
+      const matching = prompts.filter(matches);
+      const choices = matching.length > 1 ? matching.filter(prompt => prompt.id !== avoidId) : matching;
+      nextId = choices[Math.floor(Math.random() * choices.length)]?.id;
+    }
+
+    this.state.bags[scope] = bag;
+    this.state.dealt[scope] = dealt;
+    this.saveState();
+
+    return nextId === undefined ? undefined : promptsById.get(nextId);
+  }
+
+  /**
+   * Deals the next prompt when no category is pinned
+   * @param groups - All loaded prompts by category ID
+   * @param strategy - How to weigh categories against each other
+   * @param avoidId - Prompt that should not come up next (e.g. the one on screen)
+   * @param matches - Which prompts may be dealt now
+   */
+  static drawFromAnyCategory(
+    groups: CategoryGroup,
+    strategy: SelectionStrategy,
+    avoidId?: string,
+    matches: PromptMatcher = MATCH_ALL
+  ): Prompt | null {
+    const categoryIds = Object.keys(groups).filter(categoryId => groups[categoryId].some(matches));
+    if (categoryIds.length === 0) {
+      return null;
+    }
+
+    switch (strategy) {
+      case 'uniform-category': {
+        // Every category is equally likely, regardless of its size
+        const categoryId = categoryIds[Math.floor(Math.random() * categoryIds.length)];
+        return this.draw(categoryId, groups[categoryId], avoidId, matches) ?? null;
+      }
+      case 'least-recent-category': {
+        // Favour the category we have not visited for the longest time
+        const oldestVisit = Math.min(...categoryIds.map(categoryId => this.state.visits[categoryId] || 0));
+        const candidates = categoryIds.filter(categoryId => (this.state.visits[categoryId] || 0) === oldestVisit);
+        const categoryId = candidates[Math.floor(Math.random() * candidates.length)];
+        return this.draw(categoryId, groups[categoryId], avoidId, matches) ?? null;
+      }
+      case 'uniform-prompt':
+      default: {
+        // Every prompt is equally likely, so bigger categories come up more often
+        const allPrompts = Object.values(groups).flat();
+        return this.draw(ALL_CATEGORIES_SCOPE, allPrompts, avoidId, matches) ?? null;
+      }
+    }
+  }
+
+  /**
+   * Remembers that a prompt of the given category was shown
+   * @param categoryId - The category of the shown prompt
+   */
+  static recordVisit(categoryId: string): void {
+    this.state.visits[categoryId] = Date.now();
+    this.saveState();
+  }
+
+  /**
+   * Starts over so every prompt can come up again
+   */
+  static reset(): void {
+    this.state = { fingerprint: this.state.fingerprint, bags: {}, dealt: {}, visits: {} };
+    this.saveState();
+  }
+
+  private static shuffle(ids: string[]): string[] {
+    const shuffled = [...ids];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  private static readState(): ShuffleBagState {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.SHUFFLE_BAG);
+      if (stored) {
+        const parsed = JSON.parse(stored) as ShuffleBagState;
+        if (typeof parsed.fingerprint === 'string' && parsed.bags && typeof parsed.bags === 'object') {
+          return { ...parsed, dealt: parsed.dealt || {}, visits: parsed.visits || {} };
+        }
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read prompt selection from localStorage:', error);
+    }
+    return { fingerprint: '', bags: {}, dealt: {}, visits: {} };
+  }
+
+  private static saveState(): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.SHUFFLE_BAG, JSON.stringify(this.state));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save prompt selection to localStorage:', error);
+    }
+  }
+}
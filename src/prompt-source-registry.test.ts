@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PromptSourceRegistry } from './prompt-source-registry.ts';
+import { CleanYamlPromptSource, LegacyYamlPromptSource, NestedYamlPromptSource, type TextReader } from './prompt-sources.ts';
+
+const CLEAN_YAML = `
+categories:
+  BIO:
+    en: Biography
+    prompts:
+      - id: 1
+        en:
+          prompt: Clean first
+          purpose: From the clean file
+`;
+
+const NESTED_YAML = `
+categories:
+  - id: BIO
+    translations:
+      en: Life story
+  - id: WRK
+    translations:
+      en: Work
+prompts:
+  - id: 1
+    category_id: BIO
+    translations:
+      en:
+        prompt: Nested first
+        purpose: From the nested file
+  - id: 1
+    category_id: WRK
+    translations:
+      en:
+        prompt: Nested work
+        purpose: From the nested file
+`;
+
+const LEGACY_YAML = `
+id: WRK1
+category: Work
+prompt: Legacy work
+purpose: From the legacy file
+---
+id: FUN1
+category: Fun
+prompt: Legacy fun
+purpose: From the legacy file
+`;
+
+function readText(text: string): TextReader {
+  return () => Promise.resolve(text);
+}
+
+describe('PromptSourceRegistry', () => {
+  beforeEach(() => {
+    // Start without the sources of the app, they fetch files next to it
+    PromptSourceRegistry.getSources().forEach(source => PromptSourceRegistry.unregister(source.id));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('merges the YAML sources in order, the earlier source winning', async () => {
+    PromptSourceRegistry.register(new CleanYamlPromptSource('clean', 'clean.yaml', readText(CLEAN_YAML)));
+    PromptSourceRegistry.register(new NestedYamlPromptSource('nested', 'nested.yaml', readText(NESTED_YAML)));
+    PromptSourceRegistry.register(new LegacyYamlPromptSource('legacy', 'prompts_EN.yaml', () => readText(LEGACY_YAML)));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const collection = await PromptSourceRegistry.load(['EN']);
+
+    expect(collection.groups.BIO.map(prompt => prompt.prompt)).toEqual(['Clean first']);
+    expect(collection.labels.BIO).toBe('Biography');
+    expect(collection.groups.WRK.map(prompt => prompt.prompt)).toEqual(['Nested work']);
+    expect(collection.groups.Fun.map(prompt => prompt.prompt)).toEqual(['Legacy fun']);
+
+    const diagnostics = PromptSourceRegistry.getDiagnostics();
+    expect(diagnostics.map(source => [source.sourceId, source.promptIds, source.skippedIds])).toEqual([
+      ['clean', ['BIO1'], []],
+      ['nested', ['WRK1'], ['BIO1']],
+      ['legacy', ['FUN1'], ['WRK1']],
+    ]);
+  });
+
+  it('reads the legacy file of the first language along the fallback chain that has one', async () => {
+    const files: { [language: string]: string } = { EN: LEGACY_YAML };
+    PromptSourceRegistry.register(new LegacyYamlPromptSource('legacy', 'prompts.yaml', language => readText(files[language] ?? '')));
+
+    const collection = await PromptSourceRegistry.load(['DE-CH', 'DE', 'EN']);
+
+    expect(collection.groups.Fun[0].language).toBe('EN');
+  });
+
+  it('leaves out files in the structure of the other YAML source', async () => {
+    PromptSourceRegistry.register(new CleanYamlPromptSource('clean', 'journal-prompts.yaml', readText(NESTED_YAML)));
+    PromptSourceRegistry.register(new NestedYamlPromptSource('nested', 'journal-prompts.yaml', readText(NESTED_YAML)));
+
+    const collection = await PromptSourceRegistry.load(['EN']);
+
+    expect(Object.keys(collection.groups).sort()).toEqual(['BIO', 'WRK']);
+    expect(PromptSourceRegistry.getDiagnostics().map(source => source.status)).toEqual(['loaded', 'loaded']);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Registry that loads all prompt sources and merges them into one collection.
+ *
+ * Conflict policy: sources are merged in registration order and the earlier source wins.
+ * A prompt whose ID was already supplied is skipped, and the first label of a category is
+ * kept. Prompts of several sources in the same category are combined in that order, and the
+ * first program with an ID is kept.
+ */
+
+import {
+  BUNDLED_SOURCE_ID,
+  BundledPromptSource,
+  CleanYamlPromptSource,
+  LegacyYamlPromptSource,
+  NestedYamlPromptSource,
+  readOptionalUrl,
+  type PromptSource
+} from './prompt-sources.ts';
+import { PATHS } from './constants.ts';
+import { PromptCollection, SourceDiagnostics } from './types.ts';
+
+export class PromptSourceRegistry {
+  // The prompts shipped with the app come first, so they win all conflicts. YAML files placed
+  // next to the app follow in the formats it read before; they are empty if there are none.
+  private static sources: PromptSource[] = [
+    new BundledPromptSource(),
+    new CleanYamlPromptSource('yaml', 'journal-prompts.yaml', readOptionalUrl(PATHS.YAML_PROMPTS)),
+    new NestedYamlPromptSource('nested-yaml', 'journal-prompts.yaml (nested)', readOptionalUrl(PATHS.YAML_PROMPTS)),
+    new LegacyYamlPromptSource(
+      'legacy-yaml',
+      'prompts_<language>.yaml',
+      language => readOptionalUrl(`${PATHS.LEGACY_PROMPTS_PREFIX}${language}.yaml`)
+    ),
+  ];
+  private static diagnostics: SourceDiagnostics[] = [];
+
+  /**
+   * Adds a source after all registered ones, replacing a source with the same ID in place
+   * @param source - The source to add
+   */
+  static register(source: PromptSource): void {
+    const index = this.sources.findIndex(existing => existing.id === source.id);
+    if (index >= 0) {
+      this.sources[index] = source;
+    } else {
+      this.sources.push(source);
+    }
+  }
+
+  /**
+   * Removes a source
+   * @param sourceId - The ID of the source to remove
+   */
+  static unregister(sourceId: string): void {
+    this.sources = this.sources.filter(source => source.id !== sourceId);
+  }
+
+  /**
+   * Gets all registered sources in merge order
+   */
+  static getSources(): PromptSource[] {
+    return [...this.sources];
+  }
+
+  /**
+   * Gets what each source supplied in the last load
+   */
+  static getDiagnostics(): SourceDiagnostics[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * Gets what a source supplied in the last load
+   * @param sourceId - The ID of the source
+   * @returns The diagnostics or undefined if the source wasn't loaded
+   */
+  static getSourceDiagnostics(sourceId: string): SourceDiagnostics | undefined {
+    return this.diagnostics.find(diagnostics => diagnostics.sourceId === sourceId);
+  }
+
+  /**
+   * Loads all sources and merges them
+   * @param languages - The fallback chain, requested language first
+   * @throws Error if no source could be loaded
+   */
+  static async load(languages: string[]): Promise<PromptCollection> {
+    const results = await Promise.allSettled(this.sources.map(source => source.load(languages)));
+
+    const merged: PromptCollection = { groups: {}, labels: {}, aliases: {}, fingerprint: '', languages: [], programs: {} };
+    const seenIds = new Set<string>();
+    this.diagnostics = [];
+
+    results.forEach((result, index) => {
+      const source = this.sources[index];
+      const diagnostics: SourceDiagnostics = {
+        sourceId: source.id,
+        label: source.label,
+        status: result.status === 'fulfilled' ? 'loaded' : 'failed',
+        promptIds: [],
+        categories: [],
+        skippedIds: [],
+      };
+      this.diagnostics.push(diagnostics);
+
+      if (result.status === 'rejected') {
+        diagnostics.error = String(result.reason);
+        // eslint-disable-next-line no-console
+        console.warn(`Failed to load prompt source ${source.label}:`, result.reason);
+        return;
+      }
+
+      const collection = result.value;
+      // Only a new prompt file resets the shuffle bags; prompts of packs and personal prompts
+      // join or leave them one by one, so saving or toggling those keeps the rounds going
+      if (source.id === BUNDLED_SOURCE_ID) {
+        merged.fingerprint = collection.fingerprint;
+      }
+      merged.languages = [...new Set([...merged.languages, ...collection.languages])];
+
+      for (const [categoryId, prompts] of Object.entries(collection.groups)) {
+        prompts.forEach(prompt => {
+          if (seenIds.has(prompt.id)) {
+            diagnostics.skippedIds.push(prompt.id);
+            return;
+          }
+          seenIds.add(prompt.id);
+          if (!merged.groups[categoryId]) {
+            merged.groups[categoryId] = [];
+          }
+          merged.groups[categoryId].push(prompt);
+          diagnostics.promptIds.push(prompt.id);
+          if (!diagnostics.categories.includes(categoryId)) {
+            diagnostics.categories.push(categoryId);
+          }
+        });
+
+        if (!merged.labels[categoryId]) {
+          merged.labels[categoryId] = collection.labels[categoryId] || categoryId;
+        }
+      }
+
+      Object.entries(collection.aliases).forEach(([name, categoryId]) => {
+        if (!merged.aliases[name]) {
+          merged.aliases[name] = categoryId;
+        }
+      });
+
+      Object.values(collection.programs).forEach(program => {
+        if (!merged.programs[program.id]) {
+          merged.programs[program.id] = program;
+        }
+      });
+
+      if (diagnostics.skippedIds.length > 0) {
+        // eslint-disable-next-line no-console
+        console.warn(`Prompt source ${source.label} has prompts already supplied by an earlier source, skipped:`, diagnostics.skippedIds);
+      }
+    });
+
+    if (!this.diagnostics.some(diagnostics => diagnostics.status === 'loaded')) {
+      throw new Error('No prompt source could be loaded');
+    }
+
+    return merged;
+  }
+}
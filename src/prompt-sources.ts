@@ -0,0 +1,173 @@
+/**
+ * Adapters that load prompts from one place in one format. The YAML adapters import the
+ * parser (and js-yaml) on demand, so it is only downloaded when such a file exists.
+ */
+
+import { PROMPT_LANGUAGES } from 'virtual:prompt-data';
+import { PATHS, DEFAULTS } from './constants.ts';
+import { buildCleanCollection } from './prompt-data.ts';
+import { CleanPromptsData, PromptCollection } from './types.ts';
+
+export interface PromptSource {
+  readonly id: string; // Unique, e.g. 'bundled' or 'url:https://example.com/prompts.yaml'
+  readonly label: string; // Shown in load diagnostics
+  /**
+   * Loads the prompts of this source
+   * @param languages - The fallback chain, requested language first
+   * @throws Error if the source can't be read or has an unknown format
+   */
+  load(languages: string[]): Promise<PromptCollection>;
+}
+
+// Reads the text of a source, e.g. from a URL or a file picked by the user
+export type TextReader = () => Promise<string>;
+
+/**
+ * Reads text from a URL
+ * @param url - The URL, relative to the app or absolute
+ */
+export function readUrl(url: string): TextReader {
+  return async () => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.statusText}`);
+    }
+    return response.text();
+  };
+}
+
+/**
+ * Reads text from a URL that may not exist, e.g. an optional prompt file next to the app
+ * @param url - The URL, relative to the app or absolute
+ * @returns A reader that gives an empty text if there is no such file
+ */
+export function readOptionalUrl(url: string): TextReader {
+  return async () => {
+    // Offline, a file that was never fetched can't be told apart from a missing one
+    const response = await fetch(url).catch(() => null);
+    // Dev servers and some hosts answer unknown paths with the app page
+    if (!response || response.status === 404 || response.headers.get('content-type')?.includes('text/html')) {
+      return '';
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.statusText}`);
+    }
+    return response.text();
+  };
+}
+
+/**
+ * Reads text from a file, e.g. picked via an <input type="file">
+ * @param file - The file to read
+ */
+export function readFile(file: Blob): TextReader {
+  return () => file.text();
+}
+
+export const BUNDLED_SOURCE_ID = 'bundled';
+
+/**
+ * The prompts shipped with the app, precompiled to one JSON file per language
+ */
+export class BundledPromptSource implements PromptSource {
+  readonly id = BUNDLED_SOURCE_ID;
+  readonly label = 'journal-prompts.yaml';
+
+  async load(languages: string[]): Promise<PromptCollection> {
+    // Languages without own prompts (e.g. DE-CH) use the file of the next language in their chain
+    const language = languages.find(code => PROMPT_LANGUAGES.includes(code)) ?? DEFAULTS.LANGUAGE;
+    return new JsonPromptSource(this.id, this.label, readUrl(`${PATHS.PROMPTS_DIR}${language.toLowerCase()}.json`)).load();
+  }
+}
+
+/**
+ * A prompt collection serialized as JSON, as compiled by the build
+ */
+export class JsonPromptSource implements PromptSource {
+  constructor(readonly id: string, readonly label: string, private readText: TextReader) {}
+
+  async load(): Promise<PromptCollection> {
+    const collection = JSON.parse(await this.readText()) as Partial<PromptCollection>;
+    if (!collection || typeof collection.groups !== 'object') {
+      throw new Error(`${this.label} is no prompt collection`);
+    }
+    return {
+      groups: collection.groups,
+      labels: collection.labels ?? {},
+      aliases: collection.aliases ?? {},
+      fingerprint: collection.fingerprint ?? '',
+      languages: collection.languages ?? [],
+      programs: collection.programs ?? {},
+    };
+  }
+}
+
+/**
+ * The clean YAML structure of journal-prompts.yaml. Empty if the text is empty or in the nested structure.
+ */
+export class CleanYamlPromptSource implements PromptSource {
+  constructor(readonly id: string, readonly label: string, private readText: TextReader) {}
+
+  async load(languages: string[]): Promise<PromptCollection> {
+    const yamlText = await this.readText();
+    if (!yamlText.trim()) {
+      return createEmptyCollection();
+    }
+    const { getStructure, parseCleanStructure } = await import('./yaml-parser.ts');
+    return getStructure(yamlText) === 'clean' ? parseCleanStructure(yamlText, languages) : createEmptyCollection();
+  }
+}
+
+/**
+ * Prompt data in the clean structure that is already parsed, e.g. an installed pack
+ */
+export class CleanDataPromptSource implements PromptSource {
+  constructor(readonly id: string, readonly label: string, private data: CleanPromptsData, private fingerprint: string) {}
+
+  load(languages: string[]): Promise<PromptCollection> {
+    return Promise.resolve(buildCleanCollection(this.data, languages, this.fingerprint));
+  }
+}
+
+/**
+ * The nested YAML structure with separate category and prompt lists. Empty if the text is empty
+ * or in the clean structure.
+ */
+export class NestedYamlPromptSource implements PromptSource {
+  constructor(readonly id: string, readonly label: string, private readText: TextReader) {}
+
+  async load(languages: string[]): Promise<PromptCollection> {
+    const yamlText = await this.readText();
+    if (!yamlText.trim()) {
+      return createEmptyCollection();
+    }
+    const { getStructure, parseNestedStructure } = await import('./yaml-parser.ts');
+    return getStructure(yamlText) === 'nested' ? parseNestedStructure(yamlText, languages) : createEmptyCollection();
+  }
+}
+
+/**
+ * Legacy per-language YAML files (prompts_EN.yaml) with one document per prompt
+ */
+export class LegacyYamlPromptSource implements PromptSource {
+  /**
+   * @param getReader - Reads the file of an upper-case language, empty if there is none
+   */
+  constructor(readonly id: string, readonly label: string, private getReader: (language: string) => TextReader) {}
+
+  async load(languages: string[]): Promise<PromptCollection> {
+    // Each file holds a single language, so use the first file along the fallback chain
+    for (const language of languages) {
+      const yamlText = await this.getReader(language)();
+      if (yamlText.trim()) {
+        const { parseLegacyDocuments } = await import('./yaml-parser.ts');
+        return parseLegacyDocuments(yamlText, language);
+      }
+    }
+    return createEmptyCollection();
+  }
+}
+
+function createEmptyCollection(): PromptCollection {
+  return { groups: {}, labels: {}, aliases: {}, fingerprint: '', languages: [], programs: {} };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import { expandTemplate, fillSlots, findPlaceholders, formatChoices, parseChoices, pickChoices } from './prompt-template.ts';
+
+const TEXT = 'Write to {a friend|a colleague|a stranger} about {today|yesterday}.';
+
+describe('expandTemplate', () => {
+  it('picks the given alternative of every group', () => {
+    expect(expandTemplate(TEXT, [2, 1])).toEqual({ text: 'Write to a stranger about yesterday.', choices: [2, 1] });
+  });
+
+  it('uses the first alternative for missing choices and wraps too large ones', () => {
+    expect(expandTemplate(TEXT, [4])).toEqual({ text: 'Write to a colleague about today.', choices: [1, 0] });
+  });
+
+  it('leaves texts without groups and unknown slots as written', () => {
+    expect(expandTemplate('Plain {name} text', [1])).toEqual({ text: 'Plain {name} text', choices: [] });
+  });
+});
+
+describe('fillSlots', () => {
+  it('turns a slot into alternatives, or into its only value', () => {
+    const slots = { opener: ['I remember...', 'I used to...'], place: ['home'] };
+    expect(fillSlots('Start with {opener} at {place}.', slots)).toBe('Start with {I remember...|I used to...} at home.');
+  });
+
+  it('keeps unknown and empty slots', () => {
+    expect(fillSlots('{missing} and {empty}', { empty: [] })).toBe('{missing} and {empty}');
+  });
+
+  it('keeps groups of alternatives', () => {
+    expect(findPlaceholders(fillSlots(TEXT, {}))).toEqual(['a friend|a colleague|a stranger', 'today|yesterday']);
+  });
+});
+
+describe('pickChoices', () => {
+  it('picks one index per group within its alternatives', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    expect(pickChoices(TEXT)).toEqual([2, 1]);
+    vi.restoreAllMocks();
+  });
+
+  it('picks nothing for texts without groups', () => {
+    expect(pickChoices('No choice here')).toEqual([]);
+  });
+});
+
+describe('variant links', () => {
+  it('round-trips the choices through the link parameter', () => {
+    const { text, choices } = expandTemplate(TEXT, [1, 1]);
+    const restored = expandTemplate(TEXT, parseChoices(formatChoices(choices)) ?? []);
+    expect(restored.text).toBe(text);
+  });
+
+  it('ignores missing and invalid parameters', () => {
+    expect(parseChoices(null)).toBeUndefined();
+    expect(parseChoices('')).toBeUndefined();
+    expect(parseChoices('1.x')).toBeUndefined();
+    expect(parseChoices('1.-2')).toBeUndefined();
+    expect(parseChoices('2.0')).toEqual([2, 0]);
+  });
+});
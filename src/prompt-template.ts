@@ -0,0 +1,107 @@
+/**
+ * Template syntax of prompt texts: {person|place|object} picks one of the alternatives when the
+ * prompt is shown, {name} is filled from the list of the same name under slots in the YAML.
+ * Free of the DOM, so the build and the validator can use it as well.
+ */
+
+export interface SlotValues {
+  [name: string]: string[];
+}
+
+export interface TemplateExpansion {
+  text: string;
+  choices: number[]; // Index of the picked alternative of every group, in order of appearance
+}
+
+// Placeholders without nested braces; alternatives need at least one |
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+const SLOT_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/i;
+
+/**
+ * Checks whether a placeholder names a slot rather than listing alternatives
+ * @param content - The text between the braces
+ */
+export function isSlotName(content: string): boolean {
+  return SLOT_NAME_PATTERN.test(content);
+}
+
+/**
+ * Lists the contents of all placeholders of a text, e.g. for validation
+ * @param text - The prompt text
+ */
+export function findPlaceholders(text: string): string[] {
+  return [...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]);
+}
+
+/**
+ * Replaces named slots by their values as alternatives, leaving unknown names as written
+ * @param text - The prompt text
+ * @param slots - The values of every slot in the language of the text
+ */
+export function fillSlots(text: string, slots: SlotValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, content: string) => {
+    const values = isSlotName(content) ? slots[content] : undefined;
+    if (!values || values.length === 0) {
+      return placeholder;
+    }
+    return values.length === 1 ? values[0] : `{${values.join('|')}}`;
+  });
+}
+
+/**
+ * Picks a random alternative for every group of a text
+ * @param text - The prompt text with slots already filled
+ * @returns One index per group, empty for texts without groups
+ */
+export function pickChoices(text: string): number[] {
+  return getGroups(text).map(alternatives => Math.floor(Math.random() * alternatives.length));
+}
+
+/**
+ * Expands a text with the given choices, so the same choices always give the same wording
+ * @param text - The prompt text with slots already filled
+ * @param choices - Index per group; missing ones pick the first alternative, too large ones wrap around
+ */
+export function expandTemplate(text: string, choices: number[]): TemplateExpansion {
+  const picked: number[] = [];
+  const expanded = text.replace(PLACEHOLDER_PATTERN, (placeholder, content: string) => {
+    const alternatives = toAlternatives(content);
+    if (!alternatives) {
+      return placeholder;
+    }
+    const choice = Math.abs(choices[picked.length] ?? 0) % alternatives.length;
+    picked.push(choice);
+    return alternatives[choice];
+  });
+
+  return { text: expanded, choices: picked };
+}
+
+/**
+ * Reads choices from a link parameter such as 2.0.1
+ * @param value - The parameter value, null if missing
+ */
+export function parseChoices(value: string | null): number[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const choices = value.split('.').map(Number);
+  return choices.every(choice => Number.isInteger(choice) && choice >= 0) ? choices : undefined;
+}
+
+/**
+ * Writes choices as a link parameter, the counterpart of parseChoices
+ */
+export function formatChoices(choices: number[]): string {
+  return choices.join('.');
+}
+
+function getGroups(text: string): string[][] {
+  return findPlaceholders(text)
+    .map(toAlternatives)
+    .filter((alternatives): alternatives is string[] => alternatives !== null);
+}
+
+function toAlternatives(content: string): string[] | null {
+  return content.includes('|') ? content.split('|') : null;
+}
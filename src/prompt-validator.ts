@@ -0,0 +1,325 @@
+/**
+ * Validation of journal-prompts.yaml before it ships, used by `npm run validate:prompts`
+ */
+
+import * as yaml from 'js-yaml';
+import { parsePrompts } from './yaml-parser.ts';
+import { renderMarkdown } from './markdown.ts';
+import { PROMPT_METADATA_KEYS } from './prompt-data.ts';
+import { findPlaceholders, isSlotName } from './prompt-template.ts';
+import { AVAILABLE_PROMPT_DEPTHS, AVAILABLE_TIMES_OF_DAY } from './constants.ts';
+import { CategoryCoverage, ValidationIssue, ValidationReport } from './types.ts';
+
+export interface ValidationOptions {
+  // Report missing translations as warnings, e.g. while a new language is in progress
+  allowMissingTranslations?: boolean;
+}
+
+const PROMPT_FIELDS = ['prompt', 'purpose'] as const;
+
+/**
+ * Validates the unified prompt file against the clean structure
+ * @param yamlText - The contents of journal-prompts.yaml
+ * @param options - Validation options
+ * @returns All issues found and the translation coverage per category and language
+ */
+export function validatePrompts(yamlText: string, options: ValidationOptions = {}): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const report: ValidationReport = { issues, languages: [], coverage: {} };
+
+  let data: unknown;
+  try {
+    data = yaml.load(yamlText);
+  } catch (error) {
+    issues.push({ severity: 'error', location: 'file', message: `Invalid YAML: ${String(error)}` });
+    return report;
+  }
+
+  const categories = isObject(data) ? data.categories : undefined;
+  if (!isObject(categories)) {
+    issues.push({ severity: 'error', location: 'file', message: 'Missing categories' });
+    return report;
+  }
+
+  report.languages = collectLanguages(categories);
+  const missingSeverity = options.allowMissingTranslations ? 'warning' : 'error';
+
+  const slots = isObject(data) ? data.slots : undefined;
+  issues.push(...validateSlots(slots, report.languages, missingSeverity));
+  const slotNames = isObject(slots) ? Object.keys(slots) : [];
+  const promptIds = new Set<string>();
+
+  for (const [categoryId, category] of Object.entries(categories)) {
+    if (!isObject(category) || !Array.isArray(category.prompts)) {
+      issues.push({ severity: 'error', location: categoryId, message: 'Missing prompts list' });
+      continue;
+    }
+
+    report.languages.forEach(language => {
+      const name = category[language];
+      if (name === undefined) {
+        issues.push({ severity: missingSeverity, location: categoryId, message: `Missing ${language} category name` });
+      } else if (typeof name !== 'string' || !name.trim()) {
+        issues.push({ severity: 'error', location: categoryId, message: `Empty ${language} category name` });
+      }
+    });
+
+    const seenIds = new Set<unknown>();
+    (category.prompts as unknown[]).forEach((prompt, index) => {
+      if (!isObject(prompt)) {
+        issues.push({ severity: 'error', location: `${categoryId}[${index}]`, message: 'Prompt is not a mapping' });
+        return;
+      }
+
+      const location = `${categoryId}${String(prompt.id)}`;
+      if (typeof prompt.id !== 'number' || !Number.isInteger(prompt.id) || prompt.id < 1) {
+        issues.push({ severity: 'error', location: `${categoryId}[${index}]`, message: `ID must be a positive number, got ${JSON.stringify(prompt.id)}` });
+      } else if (seenIds.has(prompt.id)) {
+        issues.push({ severity: 'error', location, message: 'Duplicate ID' });
+      }
+      seenIds.add(prompt.id);
+      promptIds.add(location);
+      issues.push(...validateMetadata(prompt, location));
+
+      report.languages.forEach(language => {
+        issues.push(...validateTranslation(prompt[language], language, location, missingSeverity, slotNames));
+      });
+      issues.push(...validateFollowUpCounts(prompt, report.languages, location));
+    });
+  }
+
+  issues.push(...validatePrograms(isObject(data) ? data.programs : undefined, promptIds, report.languages, missingSeverity));
+
+  report.coverage = computeCoverage(yamlText, report.languages);
+  return report;
+}
+
+function validatePrograms(
+  programs: unknown,
+  promptIds: Set<string>,
+  languages: string[],
+  missingSeverity: ValidationIssue['severity']
+): ValidationIssue[] {
+  if (programs === undefined) {
+    return [];
+  }
+  if (!isObject(programs)) {
+    return [{ severity: 'error', location: 'programs', message: 'programs must be a mapping of IDs to programs' }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  // Texts of a program or day: a title and an optional intro per language
+  const validateTexts = (texts: Record<string, unknown>, location: string): void => {
+    languages.forEach(language => {
+      const translation = texts[language];
+      if (translation === undefined) {
+        issues.push({ severity: missingSeverity, location, message: `Missing ${language} title` });
+      } else if (!isObject(translation) || typeof translation.title !== 'string' || !translation.title.trim()) {
+        issues.push({ severity: 'error', location, message: `Empty ${language} title` });
+      } else if (translation.intro !== undefined && (typeof translation.intro !== 'string' || !translation.intro.trim())) {
+        issues.push({ severity: 'error', location, message: `Empty ${language} intro` });
+      }
+    });
+  };
+
+  Object.entries(programs).forEach(([programId, program]) => {
+    const location = `programs.${programId}`;
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(programId)) {
+      issues.push({ severity: 'error', location, message: 'Program IDs may only contain lower-case letters, digits and -, as they are used in links' });
+    }
+    if (!isObject(program) || !Array.isArray(program.days) || program.days.length === 0) {
+      issues.push({ severity: 'error', location, message: 'Missing days list' });
+      return;
+    }
+    validateTexts(program, location);
+
+    (program.days as unknown[]).forEach((day, index) => {
+      const dayLocation = `${location} day ${index + 1}`;
+      if (!isObject(day)) {
+        issues.push({ severity: 'error', location: dayLocation, message: 'Day is not a mapping' });
+        return;
+      }
+      if (typeof day.prompt !== 'string' || !promptIds.has(day.prompt)) {
+        issues.push({ severity: 'error', location: dayLocation, message: `Unknown prompt ${JSON.stringify(day.prompt)}` });
+      }
+      validateTexts(day, dayLocation);
+    });
+  });
+  return issues;
+}
+
+function validateMetadata(prompt: Record<string, unknown>, location: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string' && !!item.trim());
+
+  if (prompt.tags !== undefined && !isStringList(prompt.tags)) {
+    issues.push({ severity: 'error', location, message: 'tags must be a list of words' });
+  }
+  if (prompt.minutes !== undefined && !(typeof prompt.minutes === 'number' && prompt.minutes > 0)) {
+    issues.push({ severity: 'error', location, message: `minutes must be a positive number, got ${JSON.stringify(prompt.minutes)}` });
+  }
+  if (prompt.depth !== undefined && !(AVAILABLE_PROMPT_DEPTHS as readonly unknown[]).includes(prompt.depth)) {
+    issues.push({ severity: 'error', location, message: `depth must be one of ${AVAILABLE_PROMPT_DEPTHS.join(', ')}` });
+  }
+  if (prompt.time_of_day !== undefined
+    && !(isStringList(prompt.time_of_day) && prompt.time_of_day.every(time => (AVAILABLE_TIMES_OF_DAY as readonly string[]).includes(time)))) {
+    issues.push({ severity: 'error', location, message: `time_of_day must be a list of ${AVAILABLE_TIMES_OF_DAY.join(', ')}` });
+  }
+  return issues;
+}
+
+function validateTranslation(
+  translation: unknown,
+  language: string,
+  location: string,
+  missingSeverity: ValidationIssue['severity'],
+  slotNames: string[]
+): ValidationIssue[] {
+  if (translation === undefined) {
+    return [{ severity: missingSeverity, location, message: `Missing ${language} translation` }];
+  }
+  if (!isObject(translation)) {
+    return [{ severity: 'error', location, message: `${language} translation is not a mapping` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  PROMPT_FIELDS.forEach(field => {
+    const text = translation[field];
+    if (typeof text !== 'string' || !text.trim()) {
+      issues.push({ severity: 'error', location, message: `Empty ${language} ${field}` });
+      return;
+    }
+
+    try {
+      renderMarkdown(text);
+    } catch (error) {
+      issues.push({ severity: 'error', location, message: `${language} ${field} is no valid Markdown: ${String(error)}` });
+    }
+  });
+  if (typeof translation.prompt === 'string') {
+    issues.push(...validatePlaceholders(translation.prompt, language, location, slotNames));
+  }
+  issues.push(...validateFollowUps(translation.follow_ups, language, location));
+  return issues;
+}
+
+function validatePlaceholders(text: string, language: string, location: string, slotNames: string[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  findPlaceholders(text).forEach(content => {
+    if (content.includes('|')) {
+      if (content.split('|').some(alternative => !alternative.trim())) {
+        issues.push({ severity: 'error', location, message: `${language} prompt has an empty alternative in {${content}}` });
+      }
+    } else if (isSlotName(content) && !slotNames.includes(content)) {
+      issues.push({ severity: 'error', location, message: `${language} prompt uses the undefined slot {${content}}` });
+    } else if (!isSlotName(content)) {
+      issues.push({ severity: 'warning', location, message: `${language} prompt has {${content}}, which is neither a slot nor alternatives` });
+    }
+  });
+  return issues;
+}
+
+function validateSlots(slots: unknown, languages: string[], missingSeverity: ValidationIssue['severity']): ValidationIssue[] {
+  if (slots === undefined) {
+    return [];
+  }
+  if (!isObject(slots)) {
+    return [{ severity: 'error', location: 'slots', message: 'slots must be a mapping of names to lists per language' }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  Object.entries(slots).forEach(([name, translations]) => {
+    const location = `slots.${name}`;
+    if (!isSlotName(name)) {
+      issues.push({ severity: 'error', location, message: 'Slot names must start with a letter and contain only letters, digits, - and _' });
+    }
+    if (!isObject(translations)) {
+      issues.push({ severity: 'error', location, message: 'Slot is not a mapping of languages to lists' });
+      return;
+    }
+
+    languages.forEach(language => {
+      const values = translations[language];
+      if (values === undefined) {
+        issues.push({ severity: missingSeverity, location, message: `Missing ${language} values` });
+      } else if (!Array.isArray(values) || values.length === 0
+        || !values.every(value => typeof value === 'string' && !!value.trim())) {
+        issues.push({ severity: 'error', location, message: `${language} values must be a list of texts` });
+      } else if ((values as string[]).some(value => /[{}|]/.test(value))) {
+        issues.push({ severity: 'error', location, message: `${language} values must not contain {, } or |` });
+      }
+    });
+  });
+  return issues;
+}
+
+function validateFollowUps(followUps: unknown, language: string, location: string): ValidationIssue[] {
+  if (followUps === undefined) {
+    return [];
+  }
+  if (!Array.isArray(followUps)) {
+    return [{ severity: 'error', location, message: `${language} follow_ups must be a list` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  followUps.forEach((followUp: unknown, index) => {
+    const step = `${language} follow-up ${index + 1}`;
+    if (!isObject(followUp) || typeof followUp.question !== 'string' || !followUp.question.trim()) {
+      issues.push({ severity: 'error', location, message: `${step} has no question` });
+      return;
+    }
+    if (followUp.hint !== undefined && (typeof followUp.hint !== 'string' || !followUp.hint.trim())) {
+      issues.push({ severity: 'error', location, message: `${step} has an empty hint` });
+    }
+  });
+  return issues;
+}
+
+// Links to a follow-up step should reach the same question in every language
+function validateFollowUpCounts(prompt: Record<string, unknown>, languages: string[], location: string): ValidationIssue[] {
+  const counts = new Set(languages
+    .map(language => prompt[language])
+    .filter(isObject)
+    .map(translation => Array.isArray(translation.follow_ups) ? translation.follow_ups.length : 0));
+  return counts.size > 1
+    ? [{ severity: 'warning', location, message: 'Translations have different numbers of follow-up questions' }]
+    : [];
+}
+
+// Coverage is measured with the app's own parser, so it matches what users get to see
+function computeCoverage(yamlText: string, languages: string[]): ValidationReport['coverage'] {
+  const coverage: ValidationReport['coverage'] = {};
+
+  languages.forEach(language => {
+    // Any other language as fallback keeps every prompt in the result, marked with its actual language
+    const collection = parsePrompts(yamlText, [language, ...languages].map(code => code.toUpperCase()));
+    for (const [categoryId, prompts] of Object.entries(collection.groups)) {
+      const categoryCoverage: CategoryCoverage = coverage[categoryId] ?? { total: prompts.length, translated: {} };
+      categoryCoverage.translated[language] = prompts.filter(prompt => prompt.language === language.toUpperCase()).length;
+      coverage[categoryId] = categoryCoverage;
+    }
+  });
+  return coverage;
+}
+
+function collectLanguages(categories: Record<string, unknown>): string[] {
+  const languages = new Set<string>();
+  Object.values(categories).filter(isObject).forEach(category => {
+    Object.entries(category).forEach(([key, value]) => {
+      if (key !== 'prompts' && typeof value === 'string') {
+        languages.add(key);
+      }
+    });
+    if (Array.isArray(category.prompts)) {
+      (category.prompts as unknown[]).filter(isObject).forEach(prompt => {
+        Object.keys(prompt).filter(key => !PROMPT_METADATA_KEYS.includes(key)).forEach(key => languages.add(key));
+      });
+    }
+  });
+  return [...languages];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,35 @@
+/**
+ * Service worker registration for offline use and update notices
+ */
+
+/**
+ * Registers the service worker built into sw.js (production builds only).
+ *
+ * @param onUpdate - Called when new prompts or a new app version are available
+ */
+export function registerServiceWorker(onUpdate: () => void): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  // The first install takes control without anything to announce
+  const hadController = Boolean(navigator.serviceWorker.controller);
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (hadController) {
+      onUpdate();
+    }
+  });
+
+  // The service worker announces changed prompt data it revalidated in the background
+  navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+    if ((event.data as { type?: string } | null)?.type === 'PROMPTS_UPDATED') {
+      onUpdate();
+    }
+  });
+
+  // Relative URL so the scope follows the GitHub Pages subpath
+  navigator.serviceWorker.register('./sw.js').catch((error: unknown) => {
+    // eslint-disable-next-line no-console
+    console.warn('Failed to register service worker:', error);
+  });
+}
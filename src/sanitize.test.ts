@@ -0,0 +1,103 @@
+// @vitest-environment jsdom
+
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from './sanitize.ts';
+import { parseMarkdown } from './markdown.ts';
+
+// Renders sanitized HTML into a detached element to inspect what survived
+function render(html: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+}
+
+describe('sanitizeHtml', () => {
+  it('removes script elements with their content', () => {
+    const result = sanitizeHtml('<p>Hello</p><script>alert(1)</script>');
+    expect(result).toBe('<p>Hello</p>');
+  });
+
+  it('removes event handlers from images and drops the image', () => {
+    const result = sanitizeHtml('<img src=x onerror="alert(1)">text');
+    expect(result).not.toContain('onerror');
+    expect(result).not.toContain('<img');
+    expect(result).toBe('text');
+  });
+
+  it('removes svg elements with onload handlers', () => {
+    const result = sanitizeHtml('<svg onload="alert(1)"><circle r="5"/></svg><p>ok</p>');
+    expect(result).toBe('<p>ok</p>');
+  });
+
+  it('removes iframes and style elements', () => {
+    expect(sanitizeHtml('<iframe src="https://example.com"></iframe>')).toBe('');
+    expect(sanitizeHtml('<style>body { display: none }</style><em>x</em>')).toBe('<em>x</em>');
+  });
+
+  it('removes event handler attributes from allowed tags', () => {
+    const result = sanitizeHtml('<p onclick="alert(1)" style="color: red">text</p>');
+    expect(result).toBe('<p>text</p>');
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JavaScript:alert(1)',
+    'java\tscript:alert(1)',
+    ' javascript:alert(1)',
+    'jav&#x09;ascript:alert(1)',
+    '&#106;avascript:alert(1)',
+    'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+    'vbscript:msgbox(1)',
+  ])('removes unsafe link target %s', href => {
+    const link = render(sanitizeHtml(`<a href="${href}">link</a>`)).querySelector('a');
+    expect(link).not.toBeNull();
+    expect(link?.hasAttribute('href')).toBe(false);
+  });
+
+  it('keeps https, mailto and relative links and isolates them from the app', () => {
+    const links = render(sanitizeHtml(
+      '<a href="https://example.com/a?b=c">web</a><a href="mailto:me@example.com">mail</a><a href="#top">top</a>'
+    )).querySelectorAll('a');
+    expect(Array.from(links, link => link.getAttribute('href'))).toEqual([
+      'https://example.com/a?b=c',
+      'mailto:me@example.com',
+      '#top',
+    ]);
+    links.forEach(link => {
+      expect(link.getAttribute('rel')).toBe('noopener noreferrer');
+      expect(link.getAttribute('target')).toBe('_blank');
+    });
+  });
+
+  it('keeps the content of unknown tags', () => {
+    expect(sanitizeHtml('<div><span>kept</span></div>')).toBe('kept');
+  });
+
+  it('removes comments', () => {
+    expect(sanitizeHtml('<p>a<!-- <script>alert(1)</script> -->b</p>')).toBe('<p>ab</p>');
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('renders emphasis and line breaks', () => {
+    expect(parseMarkdown('*soft* and **strong**\nnext line').trim())
+      .toBe('<p><em>soft</em> and <strong>strong</strong><br>next line</p>');
+  });
+
+  it('renders https links', () => {
+    const link = render(parseMarkdown('[docs](https://example.com)')).querySelector('a');
+    expect(link?.getAttribute('href')).toBe('https://example.com');
+    expect(link?.textContent).toBe('docs');
+  });
+
+  it('removes raw HTML payloads embedded in Markdown', () => {
+    const result = parseMarkdown('Hi <img src=x onerror=alert(1)> <script>alert(1)</script>');
+    expect(result).not.toMatch(/<img|<script|onerror/);
+    expect(result).toContain('Hi');
+  });
+
+  it('removes javascript: and data: targets from Markdown links', () => {
+    const links = render(parseMarkdown('[a](javascript:alert(1)) [b](data:text/html,<b>x</b>)')).querySelectorAll('a');
+    links.forEach(link => expect(link.hasAttribute('href')).toBe(false));
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Allowlist-based HTML sanitizer for rendered Markdown. Prompts can come from packs, links and
+ * users, so only the formatting Markdown produces is kept; everything else is removed.
+ */
+
+// Tags that are kept, with the attributes they may have
+const ALLOWED_TAGS: { readonly [tagName: string]: readonly string[] } = {
+  P: [],
+  BR: [],
+  EM: [],
+  STRONG: [],
+  DEL: [],
+  CODE: [],
+  PRE: [],
+  BLOCKQUOTE: [],
+  UL: [],
+  OL: ['start'],
+  LI: [],
+  H1: [],
+  H2: [],
+  H3: [],
+  H4: [],
+  H5: [],
+  H6: [],
+  HR: [],
+  A: ['href', 'title'],
+  TABLE: [],
+  THEAD: [],
+  TBODY: [],
+  TR: [],
+  TH: ['align'],
+  TD: ['align'],
+};
+
+// Tags removed together with their content; other unknown tags are replaced by their content
+const DROPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'IFRAME', 'FRAME', 'FRAMESET', 'OBJECT', 'EMBED', 'TEMPLATE',
+  'NOSCRIPT', 'SVG', 'MATH', 'FORM', 'TEXTAREA', 'SELECT', 'BUTTON', 'INPUT', 'TITLE',
+]);
+
+// Links may be relative or use one of these schemes, never javascript: or data:
+const ALLOWED_URL_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Removes everything from an HTML fragment that is not on the allowlist
+ * @param html - The HTML, e.g. rendered by marked
+ * @returns HTML that is safe to assign to innerHTML
+ */
+export function sanitizeHtml(html: string): string {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  sanitizeChildren(template.content);
+  return template.innerHTML;
+}
+
+function sanitizeChildren(parent: Node): void {
+  // Copy the list, as nodes are removed and replaced while walking it
+  Array.from(parent.childNodes).forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return;
+    }
+
+    if (!(node instanceof Element)) {
+      // Comments, processing instructions and the like
+      node.remove();
+      return;
+    }
+
+    const tagName = node.tagName.toUpperCase();
+    if (DROPPED_TAGS.has(tagName)) {
+      node.remove();
+      return;
+    }
+
+    sanitizeChildren(node);
+
+    const allowedAttributes = ALLOWED_TAGS[tagName];
+    if (!allowedAttributes) {
+      node.replaceWith(...Array.from(node.childNodes));
+      return;
+    }
+
+    Array.from(node.attributes).forEach(attribute => {
+      const name = attribute.name.toLowerCase();
+      if (!allowedAttributes.includes(name) || (name === 'href' && !isSafeUrl(attribute.value))) {
+        node.removeAttribute(attribute.name);
+      }
+    });
+
+    // Links leave the app, so they get no access to it
+    if (tagName === 'A' && node.hasAttribute('href')) {
+      node.setAttribute('rel', 'noopener noreferrer');
+      node.setAttribute('target', '_blank');
+    }
+  });
+}
+
+function isSafeUrl(url: string): boolean {
+  // Browsers ignore control characters and whitespace in schemes (java\tscript:)
+  // eslint-disable-next-line no-control-regex
+  const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase();
+  const scheme = /^([a-z][a-z0-9+.-]*):/.exec(normalized);
+  return !scheme || ALLOWED_URL_SCHEMES.includes(scheme[1] + ':');
+}
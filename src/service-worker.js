@@ -0,0 +1,76 @@
+/**
+ * Service worker template for offline use. The build (plugins/service-worker.ts)
+ * fills in the cache version and the list of files to precache and emits sw.js.
+ */
+
+const CACHE_NAME = 'journal-prompts-__CACHE_VERSION__';
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+// Prompt data whose changes are announced to the open app
+const PROMPT_DATA_PATTERN = /\/prompts\/[\w-]+\.json$/;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith('journal-prompts-') && name !== CACHE_NAME)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+
+  // Deep links (?id=BIO3) all share the cached app shell
+  const cacheKey = request.mode === 'navigate' ? new URL('./', self.registration.scope).href : request;
+  event.respondWith(staleWhileRevalidate(event, request, cacheKey));
+});
+
+async function staleWhileRevalidate(event, request, cacheKey) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(cacheKey);
+  // Clone before the cached response is handed to the page and its body is consumed
+  const cachedPromptData = cached && PROMPT_DATA_PATTERN.test(request.url) ? cached.clone() : null;
+
+  const update = fetch(request)
+    .then(async (response) => {
+      if (response.ok) {
+        if (cachedPromptData) {
+          await notifyIfChanged(cachedPromptData, response.clone());
+        }
+        await cache.put(cacheKey, response.clone());
+      }
+      return response;
+    });
+
+  if (cached) {
+    // Serve the cached copy right away and refresh it in the background
+    event.waitUntil(update.catch(() => undefined));
+    return cached;
+  }
+  return update;
+}
+
+async function notifyIfChanged(cached, fresh) {
+  const [cachedText, freshText] = await Promise.all([cached.text(), fresh.text()]);
+  if (cachedText === freshText) {
+    return;
+  }
+
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage({ type: 'PROMPTS_UPDATED' }));
+}
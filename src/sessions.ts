@@ -0,0 +1,55 @@
+/**
+ * Log of completed timed writing sessions, stored in localStorage
+ */
+
+import { STORAGE_KEYS } from './constants.ts';
+import { WritingSessionRecord } from './types.ts';
+
+export class SessionManager {
+  /**
+   * Gets all completed sessions, oldest first
+   * @returns The sessions or an empty list if not set/invalid
+   */
+  static getSessions(): WritingSessionRecord[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.SESSIONS);
+      if (stored) {
+        const parsed = JSON.parse(stored) as unknown;
+        if (Array.isArray(parsed)) {
+          return parsed as WritingSessionRecord[];
+        }
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read writing sessions from localStorage:', error);
+    }
+    return [];
+  }
+
+  /**
+   * Logs a session that ran until the end
+   * @param promptId - The ID of the prompt the session was started with
+   * @param minutes - The duration of the session
+   */
+  static addSession(promptId: string, minutes: number): void {
+    const session: WritingSessionRecord = { promptId, minutes, completedAt: Date.now() };
+    try {
+      localStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify([...this.getSessions(), session]));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save writing session to localStorage:', error);
+    }
+  }
+
+  /**
+   * Forgets all logged sessions
+   */
+  static clear(): void {
+    try {
+      localStorage.removeItem(STORAGE_KEYS.SESSIONS);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to remove writing sessions from localStorage:', error);
+    }
+  }
+}
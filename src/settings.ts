@@ -1,31 +1,44 @@
 /**
- * Unified settings manager for language and theme preferences
+ * Unified settings manager for language, theme and prompt selection preferences
  */
 
 import {
   STORAGE_KEYS,
   DEFAULTS,
-  AVAILABLE_LANGUAGES,
   AVAILABLE_THEMES,
+  AVAILABLE_SELECTION_STRATEGIES,
+  AVAILABLE_DAILY_TIMEZONES,
+  AVAILABLE_SESSION_MINUTES,
   type Language,
-  type Theme
+  type Theme,
+  type SelectionStrategy,
+  type DailyTimezone,
+  type SessionMinutes
 } from './constants.ts';
+import { LanguageRegistry } from './languages.ts';
 
 export class SettingsManager {
+  private static languageOverride: Language | null = null;
+
   /**
-   * Gets the current language setting from localStorage
-   * @returns The current language or default if not set/invalid
+   * Gets the current language setting from the visit override or localStorage
+   * @returns The current language, else the browser language on first visits, else the default
    */
   static getCurrentLanguage(): Language {
+    if (this.languageOverride) {
+      return this.languageOverride;
+    }
+
     try {
       const stored = localStorage.getItem(STORAGE_KEYS.LANGUAGE);
-      if (stored && AVAILABLE_LANGUAGES.includes(stored as Language)) {
-        return stored as Language;
+      if (stored && LanguageRegistry.isSupported(stored)) {
+        return stored;
       }
     } catch (error) {
       console.warn('Failed to read language from localStorage:', error);
     }
-    return DEFAULTS.LANGUAGE;
+    // Not stored, so the browser preference is followed until a language is picked
+    return LanguageRegistry.detectBrowserLanguage() ?? DEFAULTS.LANGUAGE;
   }
 
   /**
@@ -33,10 +46,13 @@ export class SettingsManager {
    * @param language - The language to set
    */
   static setLanguage(language: Language): void {
-    if (!AVAILABLE_LANGUAGES.includes(language)) {
+    if (!LanguageRegistry.isSupported(language)) {
       throw new Error(`Unsupported language: ${language}`);
     }
 
+    // An explicit choice replaces any language applied from a link
+    this.languageOverride = null;
+
     try {
       localStorage.setItem(STORAGE_KEYS.LANGUAGE, language);
       // Update HTML lang attribute for accessibility
@@ -46,6 +62,27 @@ export class SettingsManager {
     }
   }
 
+  /**
+   * Applies a language for this visit only without touching the stored preference,
+   * e.g. when opening a link with ?lang=de
+   * @param language - The language to apply
+   */
+  static applyLanguageForVisit(language: Language): void {
+    if (!LanguageRegistry.isSupported(language)) {
+      throw new Error(`Unsupported language: ${language}`);
+    }
+
+    this.languageOverride = language;
+    document.documentElement.lang = language.toLowerCase();
+  }
+
+  /**
+   * Checks if the current language only applies to this visit
+   */
+  static hasLanguageOverride(): boolean {
+    return this.languageOverride !== null;
+  }
+
   /**
    * Gets the current theme setting from localStorage
    * @returns The current theme or default if not set/invalid
@@ -84,14 +121,191 @@ export class SettingsManager {
     }
   }
 
+  /**
+   * Gets the selection strategy for "any category" mode from localStorage
+   * @returns The current strategy or default if not set/invalid
+   */
+  static getSelectionStrategy(): SelectionStrategy {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.SELECTION_STRATEGY);
+      if (stored && this.isSelectionStrategySupported(stored)) {
+        return stored;
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read selection strategy from localStorage:', error);
+    }
+    return DEFAULTS.SELECTION_STRATEGY;
+  }
+
+  /**
+   * Sets the selection strategy for "any category" mode
+   * @param strategy - The strategy to set
+   */
+  static setSelectionStrategy(strategy: SelectionStrategy): void {
+    if (!AVAILABLE_SELECTION_STRATEGIES.includes(strategy)) {
+      throw new Error(`Unsupported selection strategy: ${strategy}`);
+    }
+
+    try {
+      localStorage.setItem(STORAGE_KEYS.SELECTION_STRATEGY, strategy);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save selection strategy to localStorage:', error);
+    }
+  }
+
+  /**
+   * Checks if the app should start with the prompt of the day
+   */
+  static getDailyMode(): boolean {
+    try {
+      return localStorage.getItem(STORAGE_KEYS.DAILY_MODE) === 'true';
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read daily mode from localStorage:', error);
+    }
+    return false;
+  }
+
+  /**
+   * Sets whether the app should start with the prompt of the day
+   * @param enabled - Whether daily mode is enabled
+   */
+  static setDailyMode(enabled: boolean): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.DAILY_MODE, String(enabled));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save daily mode to localStorage:', error);
+    }
+  }
+
+  /**
+   * Gets which calendar date decides the prompt of the day
+   * @returns The current timezone option or default if not set/invalid
+   */
+  static getDailyTimezone(): DailyTimezone {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.DAILY_TIMEZONE);
+      if (stored && this.isDailyTimezoneSupported(stored)) {
+        return stored;
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read daily timezone from localStorage:', error);
+    }
+    return DEFAULTS.DAILY_TIMEZONE;
+  }
+
+  /**
+   * Sets which calendar date decides the prompt of the day
+   * @param timezone - The timezone option to set
+   */
+  static setDailyTimezone(timezone: DailyTimezone): void {
+    if (!AVAILABLE_DAILY_TIMEZONES.includes(timezone)) {
+      throw new Error(`Unsupported daily timezone: ${timezone}`);
+    }
+
+    try {
+      localStorage.setItem(STORAGE_KEYS.DAILY_TIMEZONE, timezone);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save daily timezone to localStorage:', error);
+    }
+  }
+
+  /**
+   * Checks if the writing pad below the prompt should be shown
+   */
+  static getWritingPadVisible(): boolean {
+    try {
+      return localStorage.getItem(STORAGE_KEYS.WRITING_PAD) === 'true';
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read writing pad setting from localStorage:', error);
+    }
+    return false;
+  }
+
+  /**
+   * Sets whether the writing pad below the prompt should be shown
+   * @param visible - Whether the writing pad is shown
+   */
+  static setWritingPadVisible(visible: boolean): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.WRITING_PAD, String(visible));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save writing pad setting to localStorage:', error);
+    }
+  }
+
+  /**
+   * Gets the duration last chosen for a timed writing session
+   * @returns The minutes or default if not set/invalid
+   */
+  static getSessionMinutes(): SessionMinutes {
+    try {
+      const stored = Number(localStorage.getItem(STORAGE_KEYS.SESSION_MINUTES));
+      if (AVAILABLE_SESSION_MINUTES.includes(stored as SessionMinutes)) {
+        return stored as SessionMinutes;
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read session duration from localStorage:', error);
+    }
+    return DEFAULTS.SESSION_MINUTES;
+  }
+
+  /**
+   * Sets the duration of timed writing sessions
+   * @param minutes - The duration in minutes
+   */
+  static setSessionMinutes(minutes: SessionMinutes): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.SESSION_MINUTES, String(minutes));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save session duration to localStorage:', error);
+    }
+  }
+
+  /**
+   * Checks if a sound should play when a writing session ends
+   */
+  static getSessionSound(): boolean {
+    try {
+      return localStorage.getItem(STORAGE_KEYS.SESSION_SOUND) === 'true';
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read session sound setting from localStorage:', error);
+    }
+    return false;
+  }
+
+  /**
+   * Sets whether a sound plays when a writing session ends
+   * @param enabled - Whether the sound is played
+   */
+  static setSessionSound(enabled: boolean): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.SESSION_SOUND, String(enabled));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save session sound setting to localStorage:', error);
+    }
+  }
+
   /**
    * Gets all current settings
-   * @returns Object with current language and theme
+   * @returns Object with current language, theme and selection strategy
    */
-  static getAllSettings(): { language: Language; theme: Theme } {
+  static getAllSettings(): { language: Language; theme: Theme; selectionStrategy: SelectionStrategy } {
     return {
       language: this.getCurrentLanguage(),
-      theme: this.getCurrentTheme()
+      theme: this.getCurrentTheme(),
+      selectionStrategy: this.getSelectionStrategy()
     };
   }
 
@@ -100,7 +314,7 @@ export class SettingsManager {
    * @param language - The language to check
    */
   static isLanguageSupported(language: string): language is Language {
-    return AVAILABLE_LANGUAGES.includes(language as Language);
+    return LanguageRegistry.isSupported(language);
   }
 
   /**
@@ -110,4 +324,20 @@ export class SettingsManager {
   static isThemeSupported(theme: string): theme is Theme {
     return AVAILABLE_THEMES.includes(theme as Theme);
   }
+
+  /**
+   * Checks if a selection strategy is supported
+   * @param strategy - The strategy to check
+   */
+  static isSelectionStrategySupported(strategy: string): strategy is SelectionStrategy {
+    return AVAILABLE_SELECTION_STRATEGIES.includes(strategy as SelectionStrategy);
+  }
+
+  /**
+   * Checks if a daily timezone option is supported
+   * @param timezone - The timezone option to check
+   */
+  static isDailyTimezoneSupported(timezone: string): timezone is DailyTimezone {
+    return AVAILABLE_DAILY_TIMEZONES.includes(timezone as DailyTimezone);
+  }
 }
\ No newline at end of file
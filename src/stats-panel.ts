@@ -0,0 +1,174 @@
+/**
+ * Panel with journaling statistics: streaks, a calendar heatmap of recent weeks and how
+ * prompts are spread over the categories
+ */
+
+import { StatsManager, shiftDate, type DayActivity } from './stats.ts';
+import { SessionManager } from './sessions.ts';
+import { TranslationManager } from './translations.ts';
+import { replaceIcon } from './icons.ts';
+import { getElementById } from './utils.ts';
+import { getDateKey } from './daily-prompt.ts';
+import { ELEMENT_IDS, CSS_CLASSES, STATS } from './constants.ts';
+import { CategoryGroup, CategoryLabels } from './types.ts';
+
+export interface StatsPanelOptions {
+  getGroups: () => CategoryGroup; // Prompts of the loaded language by category
+  getLabels: () => CategoryLabels;
+}
+
+export class StatsPanel {
+  private panelEl: HTMLElement;
+  private titleEl: HTMLElement;
+  private streaksEl: HTMLElement;
+  private heatmapEl: HTMLElement;
+  private categoriesTitleEl: HTMLElement;
+  private categoriesEl: HTMLElement;
+  private emptyEl: HTMLElement;
+  private closeBtnEl: HTMLElement;
+
+  constructor(private options: StatsPanelOptions) {
+    this.panelEl = getElementById(ELEMENT_IDS.STATS_PANEL, 'Stats panel');
+    this.titleEl = getElementById(ELEMENT_IDS.STATS_TITLE, 'Stats title');
+    this.streaksEl = getElementById(ELEMENT_IDS.STATS_STREAKS, 'Stats streaks');
+    this.heatmapEl = getElementById(ELEMENT_IDS.STATS_HEATMAP, 'Stats heatmap');
+    this.categoriesTitleEl = getElementById(ELEMENT_IDS.STATS_CATEGORIES_TITLE, 'Stats categories title');
+    this.categoriesEl = getElementById(ELEMENT_IDS.STATS_CATEGORIES, 'Stats categories');
+    this.emptyEl = getElementById(ELEMENT_IDS.STATS_EMPTY, 'Stats empty message');
+    this.closeBtnEl = getElementById(ELEMENT_IDS.CLOSE_STATS_BTN, 'Close stats button');
+    replaceIcon(this.closeBtnEl, 'close');
+
+    this.closeBtnEl.addEventListener('click', () => this.toggle());
+  }
+
+  /**
+   * Shows or hides the panel
+   */
+  toggle(): void {
+    const isHidden = this.panelEl.classList.toggle(CSS_CLASSES.HIDDEN);
+    if (!isHidden) {
+      this.render();
+    }
+  }
+
+  /**
+   * Renders the panel again if it is open, e.g. after a prompt was marked or the data cleared
+   */
+  refresh(): void {
+    if (!this.panelEl.classList.contains(CSS_CLASSES.HIDDEN)) {
+      this.render();
+    }
+  }
+
+  /**
+   * Updates all texts of the panel for the current language
+   */
+  updateUIText(): void {
+    this.titleEl.textContent = TranslationManager.get('stats.title');
+    this.categoriesTitleEl.textContent = TranslationManager.get('stats.categories');
+    this.emptyEl.textContent = TranslationManager.get('stats.empty');
+    this.closeBtnEl.title = TranslationManager.get('buttons.closePanel');
+    this.refresh();
+  }
+
+  private render(): void {
+    const dailyActivity = StatsManager.getDailyActivity();
+    this.emptyEl.classList.toggle(CSS_CLASSES.HIDDEN, dailyActivity.size > 0);
+
+    const streaks = StatsManager.getStreaks();
+    this.streaksEl.textContent = [
+      TranslationManager.get('stats.currentStreak', { days: TranslationManager.plural('stats.days', streaks.current) }),
+      TranslationManager.get('stats.longestStreak', { days: TranslationManager.plural('stats.days', streaks.longest) }),
+      TranslationManager.plural('stats.sessions', SessionManager.getSessions().length),
+    ].join(' · ');
+
+    this.renderHeatmap(dailyActivity);
+    this.renderCategories();
+  }
+
+  private renderHeatmap(dailyActivity: Map<string, DayActivity>): void {
+    this.heatmapEl.innerHTML = '';
+    this.heatmapEl.setAttribute('aria-label', TranslationManager.get('stats.heatmap', { weeks: STATS.HEATMAP_WEEKS }));
+
+    // One column per week from Monday to Sunday, ending with the current week
+    const now = new Date();
+    const today = getDateKey(now, 'local');
+    const daysSinceMonday = (now.getDay() + 6) % 7;
+    const firstDay = shiftDate(today, -daysSinceMonday - (STATS.HEATMAP_WEEKS - 1) * 7);
+    const language = TranslationManager.getCurrentLanguage().toLowerCase();
+
+    for (let offset = 0; offset <= (STATS.HEATMAP_WEEKS - 1) * 7 + daysSinceMonday; offset++) {
+      const date = shiftDate(firstDay, offset);
+      const day = dailyActivity.get(date) ?? { viewed: 0, wrote: 0 };
+      const [year, month, dayOfMonth] = date.split('-').map(Number);
+
+      const cell = document.createElement('span');
+      cell.className = 'stats-day';
+      cell.dataset.level = String(getActivityLevel(day));
+      cell.title = [
+        new Date(year, month - 1, dayOfMonth).toLocaleDateString(language),
+        TranslationManager.plural('stats.wrote', day.wrote),
+        TranslationManager.plural('stats.viewed', day.viewed),
+      ].join(' · ');
+      this.heatmapEl.appendChild(cell);
+    }
+  }
+
+  private renderCategories(): void {
+    const groups = this.options.getGroups();
+    const labels = this.options.getLabels();
+    const seen = StatsManager.getSeenPromptIds();
+    const wroteCounts = StatsManager.getWroteCounts();
+    this.categoriesEl.innerHTML = '';
+
+    const categories = Object.entries(groups).map(([categoryId, prompts]) => ({
+      label: labels[categoryId] || categoryId,
+      total: prompts.length,
+      seen: prompts.filter(prompt => seen.has(prompt.id)).length,
+      wrote: prompts.reduce((sum, prompt) => sum + (wroteCounts.get(prompt.id) ?? 0), 0),
+    }));
+    const totalWrote = categories.reduce((sum, category) => sum + category.wrote, 0);
+
+    categories
+      .sort((a, b) => b.wrote - a.wrote || a.label.localeCompare(b.label))
+      .forEach(category => {
+        const item = document.createElement('li');
+        item.className = 'panel-list-item';
+
+        const title = document.createElement('span');
+        title.className = 'panel-list-text';
+        title.textContent = category.label;
+
+        const meta = document.createElement('span');
+        meta.className = 'panel-list-meta';
+        meta.textContent = [
+          TranslationManager.plural('stats.wrote', category.wrote),
+          TranslationManager.get('stats.seen', { seen: category.seen, total: category.total }),
+          TranslationManager.plural('stats.neverSeen', category.total - category.seen),
+        ].join(' · ');
+
+        // Share of all prompts written about
+        const share = totalWrote > 0 ? Math.round((category.wrote / totalWrote) * 100) : 0;
+        const bar = document.createElement('span');
+        bar.className = 'stats-bar';
+        bar.title = `${share}%`;
+        const fill = document.createElement('span');
+        fill.className = 'stats-bar-fill';
+        fill.style.width = `${share}%`;
+        bar.appendChild(fill);
+
+        item.append(title, meta, bar);
+        this.categoriesEl.appendChild(item);
+      });
+  }
+}
+
+function getActivityLevel(day: DayActivity): number {
+  if (day.wrote > 1) {
+    return 3;
+  }
+  if (day.wrote === 1) {
+    return 2;
+  }
+  return day.viewed > 0 ? 1 : 0;
+}
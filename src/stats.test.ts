@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { STORAGE_KEYS } from './constants.ts';
+import { shiftDate, StatsManager } from './stats.ts';
+import { ActivityRecord, WritingSessionRecord } from './types.ts';
+
+function storeActivity(dates: string[], kind: ActivityRecord['kind'] = 'wrote'): void {
+  const records: ActivityRecord[] = dates.map(date => ({ promptId: 'BIO1', kind, date }));
+  localStorage.setItem(STORAGE_KEYS.ACTIVITY, JSON.stringify(records));
+}
+
+describe('StatsManager', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 2, 12, 9));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts the current streak up to today', () => {
+    storeActivity(['2025-03-10', '2025-03-11', '2025-03-12']);
+    expect(StatsManager.getStreaks()).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('keeps the streak while today is still open', () => {
+    storeActivity(['2025-03-10', '2025-03-11']);
+    expect(StatsManager.getStreaks()).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('breaks the streak once a whole day is missed, keeping the longest', () => {
+    storeActivity(['2025-03-01', '2025-03-02', '2025-03-03', '2025-03-10']);
+    expect(StatsManager.getStreaks()).toEqual({ current: 0, longest: 3 });
+  });
+
+  it('counts only days with writing', () => {
+    storeActivity(['2025-03-11', '2025-03-12'], 'viewed');
+    expect(StatsManager.getStreaks()).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('counts completed timed sessions as writing', () => {
+    const session: WritingSessionRecord = { promptId: 'BIO1', minutes: 10, completedAt: new Date(2025, 2, 11, 20).getTime() };
+    localStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify([session]));
+    storeActivity(['2025-03-12']);
+
+    expect(StatsManager.getDailyActivity().get('2025-03-11')).toEqual({ viewed: 0, wrote: 1 });
+    expect(StatsManager.getStreaks()).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('toggles today\'s mark and logs a view once a day', () => {
+    expect(StatsManager.toggleWrote('BIO1')).toBe(true);
+    expect(StatsManager.hasWrittenToday('BIO1')).toBe(true);
+    expect(StatsManager.toggleWrote('BIO1')).toBe(false);
+    expect(StatsManager.hasWrittenToday('BIO1')).toBe(false);
+
+    StatsManager.recordView('BIO1');
+    StatsManager.recordView('BIO1');
+    expect(StatsManager.getActivity()).toEqual([{ promptId: 'BIO1', kind: 'viewed', date: '2025-03-12' }]);
+  });
+});
+
+describe('shiftDate', () => {
+  it('moves across months and years', () => {
+    expect(shiftDate('2025-03-01', -1)).toBe('2025-02-28');
+    expect(shiftDate('2024-12-31', 1)).toBe('2025-01-01');
+    expect(shiftDate('2024-02-28', 1)).toBe('2024-02-29');
+  });
+});
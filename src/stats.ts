@@ -0,0 +1,191 @@
+/**
+ * Local record of journaling activity: prompts shown and prompts marked as written about,
+ * stored in localStorage. Together with completed timed sessions it feeds the statistics panel.
+ */
+
+import { STORAGE_KEYS } from './constants.ts';
+import { getDateKey } from './daily-prompt.ts';
+import { SessionManager } from './sessions.ts';
+import { ActivityKind, ActivityRecord } from './types.ts';
+
+export interface DayActivity {
+  viewed: number; // Prompts shown
+  wrote: number; // Prompts written about and completed sessions
+}
+
+export interface Streaks {
+  current: number; // Writing days up to today, or up to yesterday if nothing is written yet today
+  longest: number;
+}
+
+export class StatsManager {
+  /**
+   * Gets the whole activity log, oldest first
+   * @returns The records or an empty list if not set/invalid
+   */
+  static getActivity(): ActivityRecord[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.ACTIVITY);
+      if (stored) {
+        const parsed = JSON.parse(stored) as unknown;
+        if (Array.isArray(parsed)) {
+          return parsed as ActivityRecord[];
+        }
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to read activity from localStorage:', error);
+    }
+    return [];
+  }
+
+  /**
+   * Logs that a prompt was shown today
+   * @param promptId - The ID of the prompt
+   */
+  static recordView(promptId: string): void {
+    this.addRecord(promptId, 'viewed');
+  }
+
+  /**
+   * Checks whether a prompt is marked as written about today
+   * @param promptId - The ID of the prompt
+   */
+  static hasWrittenToday(promptId: string): boolean {
+    const today = this.getToday();
+    return this.getActivity().some(record => record.kind === 'wrote' && record.promptId === promptId && record.date === today);
+  }
+
+  /**
+   * Marks a prompt as written about today, or removes today's mark
+   * @param promptId - The ID of the prompt
+   * @returns Whether the prompt is now marked
+   */
+  static toggleWrote(promptId: string): boolean {
+    if (!this.hasWrittenToday(promptId)) {
+      this.addRecord(promptId, 'wrote');
+      return true;
+    }
+
+    const today = this.getToday();
+    this.saveActivity(this.getActivity().filter(record =>
+      !(record.kind === 'wrote' && record.promptId === promptId && record.date === today)
+    ));
+    return false;
+  }
+
+  /**
+   * Gets the IDs of all prompts that were ever shown or written about
+   */
+  static getSeenPromptIds(): Set<string> {
+    return new Set(this.getActivity().map(record => record.promptId));
+  }
+
+  /**
+   * Counts the prompts written about per prompt ID
+   */
+  static getWroteCounts(): Map<string, number> {
+    const counts = new Map<string, number>();
+    this.getActivity()
+      .filter(record => record.kind === 'wrote')
+      .forEach(record => counts.set(record.promptId, (counts.get(record.promptId) ?? 0) + 1));
+    return counts;
+  }
+
+  /**
+   * Sums up the activity of every day with any activity
+   * @returns Activity by date as YYYY-MM-DD
+   */
+  static getDailyActivity(): Map<string, DayActivity> {
+    const days = new Map<string, DayActivity>();
+    const count = (date: string, kind: ActivityKind): void => {
+      const day = days.get(date) ?? { viewed: 0, wrote: 0 };
+      day[kind]++;
+      days.set(date, day);
+    };
+
+    this.getActivity().forEach(record => count(record.date, record.kind));
+    // A completed timed session counts as writing, whether or not the prompt was marked
+    SessionManager.getSessions().forEach(session => count(getDateKey(new Date(session.completedAt), 'local'), 'wrote'));
+    return days;
+  }
+
+  /**
+   * Gets the current and the longest run of consecutive days with writing
+   */
+  static getStreaks(): Streaks {
+    const writingDays = new Set(
+      [...this.getDailyActivity()].filter(([, day]) => day.wrote > 0).map(([date]) => date)
+    );
+
+    let longest = 0;
+    writingDays.forEach(date => {
+      // Count from the first day of every run only
+      if (writingDays.has(shiftDate(date, -1))) {
+        return;
+      }
+      let length = 1;
+      while (writingDays.has(shiftDate(date, length))) {
+        length++;
+      }
+      longest = Math.max(longest, length);
+    });
+
+    // Today still counts as open, so a streak only breaks once a whole day is missed
+    const today = this.getToday();
+    let date = writingDays.has(today) ? today : shiftDate(today, -1);
+    let current = 0;
+    while (writingDays.has(date)) {
+      current++;
+      date = shiftDate(date, -1);
+    }
+
+    return { current, longest };
+  }
+
+  /**
+   * Forgets all activity and the logged timed sessions
+   */
+  static clear(): void {
+    try {
+      localStorage.removeItem(STORAGE_KEYS.ACTIVITY);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to remove activity from localStorage:', error);
+    }
+    SessionManager.clear();
+  }
+
+  private static getToday(): string {
+    // Days follow the local calendar, like the days of programs
+    return getDateKey(new Date(), 'local');
+  }
+
+  private static addRecord(promptId: string, kind: ActivityKind): void {
+    const date = this.getToday();
+    const activity = this.getActivity();
+    if (activity.some(record => record.kind === kind && record.promptId === promptId && record.date === date)) {
+      return;
+    }
+    this.saveActivity([...activity, { promptId, kind, date }]);
+  }
+
+  private static saveActivity(activity: ActivityRecord[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.ACTIVITY, JSON.stringify(activity));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save activity to localStorage:', error);
+    }
+  }
+}
+
+/**
+ * Moves a date by a number of days in the local calendar
+ * @param date - The date as YYYY-MM-DD
+ * @param days - The number of days, negative to go back
+ */
+export function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return getDateKey(new Date(year, month - 1, day + days), 'local');
+}
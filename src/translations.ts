@@ -1,8 +1,14 @@
 // Translation system for the journal prompts app
 
+import { LanguageRegistry } from './languages.ts';
+
+// Plural forms by Intl.PluralRules category (one, few, many, ...); "other" is required
+type PluralForms = { [category in Intl.LDMLPluralRule]?: string } & { other: string };
+
 interface Translations {
   page: {
     title: string;
+    description: string;
   };
   categorySelection: {
     label: string;
@@ -14,8 +20,17 @@ interface Translations {
     newPrompt: string;
     newPromptFromAnyCategory: string;
     copyLink: string;
-    switchToEnglish: string;
-    switchToGerman: string;
+    previousPrompt: string;
+    goDeeper: string;
+    session: string;
+    markWritten: string;
+    unmarkWritten: string;
+    newPromptFromFavorites: string;
+    addFavorite: string;
+    removeFavorite: string;
+    closePanel: string;
+    reload: string;
+    switchLanguage: string;
     switchToLight: string;
     switchToDark: string;
     pinCategory: string;
@@ -26,30 +41,233 @@ interface Translations {
     errorTitle: string;
     copied: string;
     linkSaved: string;
+    linkSavedWithoutLanguage: string;
     categoryPinned: string;
     categoryUnpinned: string;
+    linkLanguageApplied: string;
+    languageSaved: string;
+    selectionReset: string;
+    dailyPrompt: string;
+    favoriteAdded: string;
+    favoriteRemoved: string;
+    favoritesModeOn: string;
+    favoritesModeOff: string;
+    exportDone: string;
+    exportFailed: string;
+    importInvalid: string;
+    importFailed: string;
+    updateAvailable: string;
+    fallbackLanguage: string;
+    packInstalled: string;
+    packInvalid: string;
+    packLoadFailed: string;
+    personalSaved: string;
+    personalDeleted: string;
+    programStarted: string;
+    programDayDone: string;
+    programFinished: string;
+    programLeft: string;
+    writtenMarked: string;
+    writtenUnmarked: string;
+    statsCleared: string;
+  };
+  favorites: {
+    title: string;
+    empty: string;
+    randomMode: string;
+    randomModeHint: string;
+  };
+  settings: {
+    resetSelection: string;
+    resetSelectionHint: string;
+    selectionStrategy: string;
+    strategies: {
+      'uniform-prompt': string;
+      'uniform-category': string;
+      'least-recent-category': string;
+    };
+    dailyMode: string;
+    dailyModeHint: string;
+    dailyTimezone: string;
+    dailyTimezones: {
+      local: string;
+      utc: string;
+    };
+    writingPad: string;
+    writingPadHint: string;
+  };
+  backup: {
+    export: string;
+    exportHint: string;
+    import: string;
+    importHint: string;
+    previewTitle: string;
+    exportedAt: string;
+    settings: string;
+    favorites: string;
+    packs: string;
+    personalPrompts: string;
+    sessions: string;
+    activity: string;
+    entries: string;
+    merge: string;
+    mergeHint: string;
+    replace: string;
+    replaceHint: string;
+    replaceConfirm: string;
+  };
+  filter: {
+    title: string;
+    hint: string;
+    anyMinutes: string;
+    maxMinutes: string;
+    anyDepth: string;
+    depths: {
+      light: string;
+      deep: string;
+    };
+    anyTime: string;
+    timesOfDay: {
+      morning: string;
+      evening: string;
+    };
+    clear: string;
+    matches: PluralForms;
+    noMatches: string;
+  };
+  personal: {
+    title: string;
+    empty: string;
+    newPrompt: string;
+    edit: string;
+    delete: string;
+    deleteConfirm: string;
+    newCategory: string;
+    newCategoryPlaceholder: string;
+    category: string;
+    language: string;
+    promptPlaceholder: string;
+    purposePlaceholder: string;
+    save: string;
+    cancel: string;
+    promptRequired: string;
+    categoryRequired: string;
+    loadFailed: string;
+    skipped: PluralForms;
+  };
+  programs: {
+    title: string;
+    empty: string;
+    hint: string;
+    days: PluralForms;
+    start: string;
+    leave: string;
+    leaveConfirm: string;
+    progress: string;
+    completed: PluralForms;
+    finished: string;
+    dayLabel: string;
+    status: {
+      done: string;
+      due: string;
+      missed: string;
+      upcoming: string;
+      unavailable: string;
+    };
+    complete: string;
+    completeHint: string;
+  };
+  stats: {
+    title: string;
+    empty: string;
+    currentStreak: string;
+    longestStreak: string;
+    days: PluralForms;
+    sessions: PluralForms;
+    heatmap: string;
+    wrote: PluralForms;
+    viewed: PluralForms;
+    categories: string;
+    seen: string;
+    neverSeen: PluralForms;
+    clear: string;
+    clearHint: string;
+    clearConfirm: string;
+  };
+  packs: {
+    title: string;
+    empty: string;
+    add: string;
+    addHint: string;
+    prompts: PluralForms;
+    enable: string;
+    disable: string;
+    remove: string;
+    removeConfirm: string;
+    installConfirm: string;
+    loadFailed: string;
+    skipped: PluralForms;
+  };
+  writingPad: {
+    placeholder: string;
+    newEntry: string;
+    preview: string;
+    edit: string;
+    wordCount: PluralForms;
+    saving: string;
+    saved: string;
+    failed: string;
+  };
+  session: {
+    duration: string;
+    minutes: string;
+    sound: string;
+    start: string;
+    pause: string;
+    resume: string;
+    stop: string;
+    timeLeft: string;
+    finished: string;
+    total: PluralForms;
+    next: string;
+    close: string;
   };
 }
 
+// Dot-separated paths to the leaves of a given type, e.g. 'buttons.newPrompt'
+type KeyPaths<T, Leaf> = {
+  [K in keyof T & string]: T[K] extends Leaf
+    ? K
+    : T[K] extends string | PluralForms
+      ? never
+      : `${K}.${KeyPaths<T[K], Leaf>}`;
+}[keyof T & string];
+
+// Keys of plain strings, for TranslationManager.get
+type TranslationKey = KeyPaths<Translations, string>;
+// Keys of plural forms, for TranslationManager.plural
+type PluralKey = KeyPaths<Translations, PluralForms>;
+
+// Values for {placeholder} interpolation; numbers are formatted for the current language
+type TranslationParams = { [placeholder: string]: string | number };
+
 class TranslationManager {
-  private static translations: Map<string, Translations> = new Map();
+  // Region variants (e.g. de-ch.json) only contain the strings that differ from their base language
+  private static translations: Map<string, Partial<Translations>> = new Map();
   private static currentLanguage: string = 'EN';
 
   static async initialize(language: string): Promise<void> {
     this.currentLanguage = language;
-    
-    if (!this.translations.has(language)) {
+
+    // Load every bundle of the fallback chain so missing strings can be looked up there
+    for (const chainLanguage of LanguageRegistry.getFallbackChain(language)) {
+      if (this.translations.has(chainLanguage) || !LanguageRegistry.isSupported(chainLanguage)) {
+        continue;
+      }
       try {
-        const translationModule = await import(`./translations/${language.toLowerCase()}.json`) as { default: Translations };
-        this.translations.set(language, translationModule.default);
+        this.translations.set(chainLanguage, await LanguageRegistry.loadTranslations(chainLanguage));
       } catch (error) {
-        console.warn(`Failed to load translations for language: ${language}`, error);
-        // Fallback to English if available
-        if (language !== 'EN' && !this.translations.has('EN')) {
-          const fallbackModule = await import('./translations/en.json') as { default: Translations };
-          this.translations.set('EN', fallbackModule.default);
-          this.currentLanguage = 'EN';
-        }
+        console.warn(`Failed to load translations for language: ${chainLanguage}`, error);
       }
     }
   }
@@ -60,27 +278,37 @@ class TranslationManager {
     }
   }
 
-  static get(key: string): string {
-    const translations = this.translations.get(this.currentLanguage);
-    if (!translations) {
-      console.warn(`No translations found for language: ${this.currentLanguage}`);
+  /**
+   * Gets a UI string, interpolating {placeholder} values
+   * @param key - The translation key, checked at compile time
+   * @param params - Values for the placeholders in the string
+   */
+  static get(key: TranslationKey, params: TranslationParams = {}): string {
+    const found = this.find(key);
+    if (typeof found?.value !== 'string') {
+      console.warn(`Translation key not found: ${key} for language: ${this.currentLanguage}`);
       return key;
     }
+    return this.interpolate(found.value, params, found.language);
+  }
 
-    // Navigate through nested object using dot notation
-    const keys = key.split('.');
-    let value: unknown = translations;
-
-    for (const k of keys) {
-      if (value && typeof value === 'object' && value !== null && k in value) {
-        value = (value as Record<string, unknown>)[k];
-      } else {
-        console.warn(`Translation key not found: ${key} for language: ${this.currentLanguage}`);
-        return key;
-      }
+  /**
+   * Gets the plural form of a UI string for a count, e.g. "3 prompts left"
+   * @param key - The key of the plural forms, checked at compile time
+   * @param count - The count that selects the form, available as {count}
+   * @param params - Values for further placeholders
+   */
+  static plural(key: PluralKey, count: number, params: TranslationParams = {}): string {
+    const found = this.find(key);
+    const forms = found?.value as PluralForms | undefined;
+    if (!found || typeof forms?.other !== 'string') {
+      console.warn(`Translation key not found: ${key} for language: ${this.currentLanguage}`);
+      return key;
     }
 
-    return typeof value === 'string' ? value : key;
+    // Plural rules of the language the forms come from, which may be a fallback language
+    const category = new Intl.PluralRules(found.language.toLowerCase()).select(count);
+    return this.interpolate(forms[category] ?? forms.other, { count, ...params }, found.language);
   }
 
   static getCurrentLanguage(): string {
@@ -90,6 +318,40 @@ class TranslationManager {
   static hasLanguage(language: string): boolean {
     return this.translations.has(language);
   }
+
+  // Use the first language of the fallback chain that has the key
+  private static find(key: string): { language: string; value: unknown } | null {
+    for (const language of LanguageRegistry.getFallbackChain(this.currentLanguage)) {
+      const value = this.lookup(this.translations.get(language), key);
+      if (value !== undefined) {
+        return { language, value };
+      }
+    }
+    return null;
+  }
+
+  private static lookup(translations: Partial<Translations> | undefined, key: string): unknown {
+    // Navigate through nested object using dot notation
+    let value: unknown = translations;
+    for (const k of key.split('.')) {
+      if (value && typeof value === 'object' && k in value) {
+        value = (value as Record<string, unknown>)[k];
+      } else {
+        return undefined;
+      }
+    }
+    return value;
+  }
+
+  private static interpolate(text: string, params: TranslationParams, language: string): string {
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) {
+        return placeholder;
+      }
+      return typeof value === 'number' ? value.toLocaleString(language.toLowerCase()) : value;
+    });
+  }
 }
 
-export { TranslationManager, type Translations };
+export { TranslationManager, type Translations, type TranslationKey, type PluralKey };
@@ -1,22 +1,175 @@
-export interface Prompt {
+import type { PromptDepth, TimeOfDay } from './constants.ts';
+
+export interface PromptMetadata {
+  tags?: string[]; // Lower-case topics, e.g. gratitude, work, relationships
+  minutes?: number; // Estimated writing time
+  depth?: PromptDepth;
+  timeOfDay?: TimeOfDay[]; // When the prompt suits best, any time if not set
+}
+
+export interface FollowUp {
+  question: string;
+  hint?: string; // Shown together with the purpose
+}
+
+export interface Prompt extends PromptMetadata {
   id: string;
-  category: string;
+  category: string; // Stable category ID (e.g. BIO), not the localized label
   prompt: string;
   purpose: string;
+  followUps?: FollowUp[]; // Revealed one at a time to go deeper, in order
+  language: string; // Upper-case code of the language the texts are in, may be a fallback language
 }
 
 export interface CategoryGroup {
-  [category: string]: Prompt[];
+  [categoryId: string]: Prompt[];
+}
+
+export interface CategoryLabels {
+  [categoryId: string]: string;
+}
+
+export interface CategoryAliases {
+  [categoryName: string]: string;
+}
+
+export interface PromptCollection {
+  groups: CategoryGroup;
+  labels: CategoryLabels; // Category names in the loaded language
+  aliases: CategoryAliases; // Category names in all languages, mapped to their ID
+  fingerprint: string; // Hash of the source file, changes whenever the prompts change
+  languages: string[]; // Upper-case codes of all languages with prompt content in the source file
+  programs: Programs; // Guided series of prompts, in the loaded language
+}
+
+export interface ProgramDay {
+  promptId: string;
+  title: string;
+  intro?: string;
+  unavailable?: boolean; // Its prompt is missing, so the day can't be shown or done
+}
+
+export interface Program {
+  id: string;
+  title: string;
+  intro?: string;
+  days: ProgramDay[];
+}
+
+export interface Programs {
+  [programId: string]: Program;
+}
+
+// Enrollment in a program, kept on this device
+export interface ProgramProgress {
+  programId: string;
+  startedOn: string; // Date of day 1 as YYYY-MM-DD
+  completedDays: number[]; // 0-based days marked as done
+}
+
+export interface SourceDiagnostics {
+  sourceId: string;
+  label: string;
+  status: 'loaded' | 'failed';
+  promptIds: string[]; // Prompts this source supplied to the merged collection
+  categories: string[]; // Categories it supplied prompts to
+  skippedIds: string[]; // Prompts dropped because an earlier source has the same ID
+  error?: string;
+}
+
+// How a prompt is shown, kept in history entries and links
+export interface PromptView {
+  step?: number; // Number of follow-up questions revealed
+  choices?: number[]; // Picked alternative of every {a|b} group of a templated prompt
+  programId?: string; // Program the prompt is shown for
+  programDay?: number; // 0-based day of that program
+}
+
+export interface PromptHistoryState extends PromptView {
+  promptId: string;
+  category: string;
+  pinned: boolean;
+  index: number; // Position in this session's stack of shown prompts
+}
+
+export interface JournalEntry {
+  promptId: string;
+  createdAt: number;
+  updatedAt: number;
+  text: string;
+}
+
+// A timed writing session that ran until the end
+export interface WritingSessionRecord {
+  promptId: string;
+  minutes: number;
+  completedAt: number;
+}
+
+export type ActivityKind = 'viewed' | 'wrote';
+
+// A prompt that was shown or marked as written about, logged once per kind and day
+export interface ActivityRecord {
+  promptId: string;
+  kind: ActivityKind;
+  date: string; // YYYY-MM-DD in the local calendar
+}
+
+export interface BackupData {
+  format: string;
+  version: number;
+  exportedAt: string;
+  storage: {
+    [storageKey: string]: string; // Raw localStorage values of app-owned keys
+  };
+  entries: JournalEntry[];
+}
+
+export interface BackupSummary {
+  exportedAt: string;
+  settings: number;
+  favorites: number;
+  packs: number;
+  personalPrompts: number;
+  sessions: number;
+  activity: number;
+  entries: number;
+}
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  location: string; // Category ID, optionally with the prompt ID (e.g. BIO3)
+  message: string;
+}
+
+export interface CategoryCoverage {
+  total: number;
+  translated: {
+    [languageCode: string]: number; // Prompts with a complete translation in this language
+  };
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  languages: string[]; // Language codes found in the file
+  coverage: {
+    [categoryId: string]: CategoryCoverage;
+  };
 }
 
 export interface PromptTranslation {
   prompt: string;
   purpose: string;
+  follow_ups?: FollowUp[];
 }
 
 export interface CleanPrompt {
   id: number;
-  [languageCode: string]: PromptTranslation | number;
+  tags?: string[];
+  minutes?: number;
+  depth?: string;
+  time_of_day?: string[];
+  [languageCode: string]: PromptTranslation | number | string | string[] | undefined;
 }
 
 export interface CleanCategory {
@@ -24,12 +177,68 @@ export interface CleanCategory {
   prompts: CleanPrompt[];
 }
 
+// Values of a named template slot per language, e.g. person: { en: [a friend, a colleague] }
+export interface TemplateSlots {
+  [name: string]: {
+    [languageCode: string]: string[];
+  };
+}
+
+export interface ProgramTranslation {
+  title: string;
+  intro?: string;
+}
+
+export interface CleanProgramDay {
+  prompt: string; // Combined prompt ID, e.g. GRT2
+  [languageCode: string]: ProgramTranslation | string;
+}
+
+export interface CleanProgram {
+  [languageCode: string]: ProgramTranslation | CleanProgramDay[];
+  days: CleanProgramDay[];
+}
+
 export interface CleanPromptsData {
+  name?: string; // Display name of a prompt pack
+  slots?: TemplateSlots;
+  programs?: {
+    [programId: string]: CleanProgram;
+  };
   categories: {
     [categoryId: string]: CleanCategory;
   };
 }
 
+export interface PromptPack {
+  id: string; // Namespace of its categories and prompts, e.g. team-retros for team-retros:ONB1
+  name: string;
+  origin: string; // File name or URL it was installed from
+  enabled: boolean;
+  installedAt: number;
+  data: CleanPromptsData; // Categories already namespaced
+}
+
+export interface PersonalPrompt {
+  id: string; // Prefixed with PERSONAL_PROMPTS.ID_PREFIX, e.g. my-m2k9x1c4a7f3qz
+  category: string; // ID of a built-in or a personal category
+  translations: {
+    [languageCode: string]: PromptTranslation; // Lower-case codes, like in journal-prompts.yaml
+  };
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PersonalCategory {
+  id: string; // Prefixed with PERSONAL_PROMPTS.CATEGORY_PREFIX, e.g. my-category-m2k9x1c4a7f3qz
+  name: string;
+}
+
+export interface PersonalLibrary {
+  prompts: PersonalPrompt[];
+  categories: PersonalCategory[];
+}
+
 // Legacy interfaces for fallback compatibility
 export interface CategoryTranslation {
   [languageCode: string]: string;
@@ -43,12 +252,17 @@ export interface Category {
 export interface MultilingualPrompt {
   id: number;
   category_id: string;
+  tags?: string[];
+  minutes?: number;
+  depth?: string;
+  time_of_day?: string[];
   translations: {
     [languageCode: string]: PromptTranslation;
   };
 }
 
 export interface PromptsData {
+  slots?: TemplateSlots;
   categories: Category[];
   prompts: MultilingualPrompt[];
 }
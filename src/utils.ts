@@ -39,6 +39,20 @@ export function forceSafariCenteringRefresh(element: HTMLSelectElement): void {
   }, 0);
 }
 
+/**
+ * Creates a short, stable hash of a string (djb2), e.g. to detect changed files.
+ *
+ * @param text - The text to hash
+ * @returns The hash as base-36 string
+ */
+export function hashString(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
 /**
  * Validates that a DOM element exists and throws a descriptive error if not.
  *
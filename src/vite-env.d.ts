@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+// Generated by plugins/prompts.ts
+declare module 'virtual:prompt-data' {
+  // Upper-case codes of the languages compiled to prompts/<code>.json
+  export const PROMPT_LANGUAGES: string[];
+}
@@ -0,0 +1,220 @@
+/**
+ * Optional writing area below the prompt with autosave to IndexedDB
+ */
+
+import { EntryStore } from './entry-store.ts';
+import { parseMarkdown } from './markdown.ts';
+import { TranslationManager } from './translations.ts';
+import { getElementById } from './utils.ts';
+import { ELEMENT_IDS, CSS_CLASSES, TIMING } from './constants.ts';
+import { JournalEntry } from './types.ts';
+
+type SaveState = 'idle' | 'saving' | 'saved' | 'failed';
+
+export class WritingPad {
+  private containerEl: HTMLElement;
+  private textEl: HTMLTextAreaElement;
+  private previewEl: HTMLElement;
+  private entriesSelectEl: HTMLSelectElement;
+  private previewBtnEl: HTMLElement;
+  private wordCountEl: HTMLElement;
+  private saveStateEl: HTMLElement;
+  private promptId: string | null = null;
+  private entries: JournalEntry[] = [];
+  private currentEntry: JournalEntry | null = null;
+  private saveTimeout: ReturnType<typeof setTimeout> | null = null;
+  private saveState: SaveState = 'idle';
+  private previewVisible: boolean = false;
+
+  constructor() {
+    this.containerEl = getElementById(ELEMENT_IDS.WRITING_PAD, 'Writing pad');
+    this.textEl = getElementById<HTMLTextAreaElement>(ELEMENT_IDS.WRITING_PAD_TEXT, 'Writing pad text');
+    this.previewEl = getElementById(ELEMENT_IDS.WRITING_PAD_PREVIEW, 'Writing pad preview');
+    this.entriesSelectEl = getElementById<HTMLSelectElement>(ELEMENT_IDS.WRITING_PAD_ENTRIES, 'Writing pad entries');
+    this.previewBtnEl = getElementById(ELEMENT_IDS.WRITING_PAD_PREVIEW_BTN, 'Writing pad preview button');
+    this.wordCountEl = getElementById(ELEMENT_IDS.WRITING_PAD_WORD_COUNT, 'Writing pad word count');
+    this.saveStateEl = getElementById(ELEMENT_IDS.WRITING_PAD_SAVE_STATE, 'Writing pad save state');
+
+    this.textEl.addEventListener('input', () => this.onInput());
+    this.entriesSelectEl.addEventListener('change', () => void this.onEntrySelected());
+    this.previewBtnEl.addEventListener('click', () => this.togglePreview());
+  }
+
+  /**
+   * Shows or hides the writing pad
+   * @param visible - Whether the writing pad should be visible
+   */
+  setVisible(visible: boolean): void {
+    this.containerEl.classList.toggle(CSS_CLASSES.HIDDEN, !visible);
+  }
+
+  /**
+   * Switches the writing pad to a prompt, starting a new entry
+   * @param promptId - The ID of the displayed prompt
+   */
+  async setPrompt(promptId: string): Promise<void> {
+    if (promptId === this.promptId) {
+      return;
+    }
+
+    // Don't lose pending text of the previous prompt
+    await this.flush();
+
+    this.promptId = promptId;
+    this.currentEntry = null;
+    this.textEl.value = '';
+    this.setSaveState('idle');
+    this.updateWordCount();
+    this.updatePreview();
+
+    await this.loadEntries();
+  }
+
+  /**
+   * Updates all texts of the writing pad for the current language
+   */
+  updateUIText(): void {
+    this.textEl.placeholder = TranslationManager.get('writingPad.placeholder');
+    this.previewBtnEl.textContent = this.previewVisible
+      ? TranslationManager.get('writingPad.edit')
+      : TranslationManager.get('writingPad.preview');
+    this.renderEntryOptions();
+    this.updateWordCount();
+    this.setSaveState(this.saveState);
+  }
+
+  /**
+   * Saves pending changes immediately
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+      await this.save();
+    }
+  }
+
+  private async loadEntries(): Promise<void> {
+    const promptId = this.promptId;
+    try {
+      const entries = promptId ? await EntryStore.getEntriesForPrompt(promptId) : [];
+      // Ignore results for a prompt that is no longer displayed
+      if (promptId === this.promptId) {
+        this.entries = entries;
+        this.renderEntryOptions();
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to load journal entries:', error);
+      this.entries = [];
+      this.renderEntryOptions();
+    }
+  }
+
+  private renderEntryOptions(): void {
+    const language = TranslationManager.getCurrentLanguage().toLowerCase();
+    this.entriesSelectEl.innerHTML = '';
+
+    const newOption = document.createElement('option');
+    newOption.value = '';
+    newOption.textContent = TranslationManager.get('writingPad.newEntry');
+    this.entriesSelectEl.appendChild(newOption);
+
+    this.entries.forEach(entry => {
+      const option = document.createElement('option');
+      option.value = String(entry.createdAt);
+      option.textContent = new Date(entry.createdAt).toLocaleString(language, {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      });
+      this.entriesSelectEl.appendChild(option);
+    });
+
+    this.entriesSelectEl.value = this.currentEntry ? String(this.currentEntry.createdAt) : '';
+    // Only offer the select once there is something to reopen
+    this.entriesSelectEl.classList.toggle(CSS_CLASSES.HIDDEN, this.entries.length === 0);
+  }
+
+  private async onEntrySelected(): Promise<void> {
+    await this.flush();
+
+    const createdAt = Number(this.entriesSelectEl.value);
+    this.currentEntry = this.entries.find(entry => entry.createdAt === createdAt) || null;
+    this.textEl.value = this.currentEntry?.text || '';
+    this.setSaveState(this.currentEntry ? 'saved' : 'idle');
+    this.updateWordCount();
+    this.updatePreview();
+  }
+
+  private onInput(): void {
+    this.updateWordCount();
+    this.setSaveState('saving');
+
+    // Debounce saving while typing
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+    }
+    this.saveTimeout = setTimeout(() => {
+      this.saveTimeout = null;
+      void this.save();
+    }, TIMING.AUTOSAVE_DELAY);
+  }
+
+  private async save(): Promise<void> {
+    if (!this.promptId) {
+      return;
+    }
+
+    const text = this.textEl.value;
+    const now = Date.now();
+
+    // Don't create empty entries, but keep edits that clear an existing one
+    if (!this.currentEntry && !text.trim()) {
+      this.setSaveState('idle');
+      return;
+    }
+
+    if (!this.currentEntry) {
+      this.currentEntry = { promptId: this.promptId, createdAt: now, updatedAt: now, text };
+      this.entries.unshift(this.currentEntry);
+      this.renderEntryOptions();
+    } else {
+      this.currentEntry.text = text;
+      this.currentEntry.updatedAt = now;
+    }
+
+    try {
+      await EntryStore.saveEntry({ ...this.currentEntry });
+      this.setSaveState('saved');
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save journal entry:', error);
+      this.setSaveState('failed');
+    }
+  }
+
+  private togglePreview(): void {
+    this.previewVisible = !this.previewVisible;
+    this.textEl.classList.toggle(CSS_CLASSES.HIDDEN, this.previewVisible);
+    this.previewEl.classList.toggle(CSS_CLASSES.HIDDEN, !this.previewVisible);
+    this.previewBtnEl.classList.toggle(CSS_CLASSES.ACTIVE, this.previewVisible);
+    this.updatePreview();
+    this.updateUIText();
+  }
+
+  private updatePreview(): void {
+    if (this.previewVisible) {
+      this.previewEl.innerHTML = parseMarkdown(this.textEl.value);
+    }
+  }
+
+  private updateWordCount(): void {
+    const words = this.textEl.value.trim().split(/\s+/).filter(Boolean).length;
+    this.wordCountEl.textContent = TranslationManager.plural('writingPad.wordCount', words);
+  }
+
+  private setSaveState(state: SaveState): void {
+    this.saveState = state;
+    this.saveStateEl.textContent = state === 'idle' ? '' : TranslationManager.get(`writingPad.${state}`);
+  }
+}
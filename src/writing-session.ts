@@ -0,0 +1,250 @@
+/**
+ * Timed writing session: a countdown below the prompt that can be paused, ends with a gentle
+ * signal and logs sessions that ran until the end
+ */
+
+import { SessionManager } from './sessions.ts';
+import { SettingsManager } from './settings.ts';
+import { TranslationManager } from './translations.ts';
+import { replaceIcon } from './icons.ts';
+import { getElementById } from './utils.ts';
+import { ELEMENT_IDS, CSS_CLASSES, TIMING, AVAILABLE_SESSION_MINUTES, type SessionMinutes } from './constants.ts';
+
+type SessionState = 'idle' | 'running' | 'paused' | 'finished';
+
+// Frequencies of the chime at the end, played one after the other (E5, A5)
+const CHIME_NOTES = [659.25, 880];
+const CHIME_NOTE_GAP = 0.35;
+const CHIME_NOTE_LENGTH = 1.6;
+const CHIME_VOLUME = 0.2;
+
+export interface WritingSessionOptions {
+  getPromptId: () => string | null; // The prompt currently shown
+  onNextPrompt: () => void;
+}
+
+export class WritingSession {
+  private toggleBtnEl: HTMLElement;
+  private containerEl: HTMLElement;
+  private setupEl: HTMLElement;
+  private minutesSelectEl: HTMLSelectElement;
+  private soundInputEl: HTMLInputElement;
+  private soundLabelEl: HTMLElement;
+  private startBtnEl: HTMLElement;
+  private runningEl: HTMLElement;
+  private timeEl: HTMLElement;
+  private pauseBtnEl: HTMLElement;
+  private stopBtnEl: HTMLElement;
+  private summaryEl: HTMLElement;
+  private summaryTextEl: HTMLElement;
+  private nextBtnEl: HTMLElement;
+  private closeBtnEl: HTMLElement;
+  private state: SessionState = 'idle';
+  private visible: boolean = false;
+  private minutes: SessionMinutes = SettingsManager.getSessionMinutes();
+  private promptId: string | null = null;
+  private endsAt: number = 0; // While running
+  private remainingMs: number = 0; // While paused
+  private tickInterval: ReturnType<typeof setInterval> | null = null;
+  private audioContext: AudioContext | null = null;
+
+  constructor(private options: WritingSessionOptions) {
+    this.toggleBtnEl = getElementById(ELEMENT_IDS.SESSION_BTN, 'Session button');
+    this.containerEl = getElementById(ELEMENT_IDS.WRITING_SESSION, 'Writing session');
+    this.setupEl = getElementById(ELEMENT_IDS.SESSION_SETUP, 'Session setup');
+    this.minutesSelectEl = getElementById<HTMLSelectElement>(ELEMENT_IDS.SESSION_MINUTES_SELECT, 'Session minutes select');
+    this.soundInputEl = getElementById<HTMLInputElement>(ELEMENT_IDS.SESSION_SOUND_INPUT, 'Session sound input');
+    this.soundLabelEl = getElementById(ELEMENT_IDS.SESSION_SOUND_LABEL, 'Session sound label');
+    this.startBtnEl = getElementById(ELEMENT_IDS.SESSION_START_BTN, 'Session start button');
+    this.runningEl = getElementById(ELEMENT_IDS.SESSION_RUNNING, 'Session running');
+    this.timeEl = getElementById(ELEMENT_IDS.SESSION_TIME, 'Session time');
+    this.pauseBtnEl = getElementById(ELEMENT_IDS.SESSION_PAUSE_BTN, 'Session pause button');
+    this.stopBtnEl = getElementById(ELEMENT_IDS.SESSION_STOP_BTN, 'Session stop button');
+    this.summaryEl = getElementById(ELEMENT_IDS.SESSION_SUMMARY, 'Session summary');
+    this.summaryTextEl = getElementById(ELEMENT_IDS.SESSION_SUMMARY_TEXT, 'Session summary text');
+    this.nextBtnEl = getElementById(ELEMENT_IDS.SESSION_NEXT_BTN, 'Session next button');
+    this.closeBtnEl = getElementById(ELEMENT_IDS.SESSION_CLOSE_BTN, 'Session close button');
+    replaceIcon(this.toggleBtnEl, 'timer');
+
+    this.soundInputEl.checked = SettingsManager.getSessionSound();
+
+    this.toggleBtnEl.addEventListener('click', () => this.toggle());
+    this.minutesSelectEl.addEventListener('change', () => {
+      this.minutes = Number(this.minutesSelectEl.value) as SessionMinutes;
+      SettingsManager.setSessionMinutes(this.minutes);
+    });
+    this.soundInputEl.addEventListener('change', () => {
+      SettingsManager.setSessionSound(this.soundInputEl.checked);
+      this.prepareSound();
+    });
+    this.startBtnEl.addEventListener('click', () => this.start());
+    this.pauseBtnEl.addEventListener('click', () => this.togglePause());
+    this.stopBtnEl.addEventListener('click', () => this.stop());
+    this.nextBtnEl.addEventListener('click', () => {
+      this.state = 'idle';
+      this.render();
+      this.options.onNextPrompt();
+    });
+    this.closeBtnEl.addEventListener('click', () => {
+      this.state = 'idle';
+      this.visible = false;
+      this.render();
+    });
+  }
+
+  /**
+   * Shows or hides the session controls; a running session stays visible until stopped
+   */
+  toggle(): void {
+    if (this.state === 'running' || this.state === 'paused') {
+      return;
+    }
+    this.visible = !this.visible;
+    this.state = 'idle';
+    this.render();
+  }
+
+  /**
+   * Updates all texts of the session controls for the current language
+   */
+  updateUIText(): void {
+    this.toggleBtnEl.title = TranslationManager.get('buttons.session');
+    this.minutesSelectEl.title = TranslationManager.get('session.duration');
+    this.minutesSelectEl.innerHTML = '';
+    AVAILABLE_SESSION_MINUTES.forEach(minutes => {
+      this.minutesSelectEl.appendChild(new Option(TranslationManager.get('session.minutes', { minutes }), String(minutes)));
+    });
+    this.minutesSelectEl.value = String(this.minutes);
+    this.soundLabelEl.textContent = TranslationManager.get('session.sound');
+    this.startBtnEl.textContent = TranslationManager.get('session.start');
+    this.stopBtnEl.textContent = TranslationManager.get('session.stop');
+    this.timeEl.setAttribute('aria-label', TranslationManager.get('session.timeLeft'));
+    this.nextBtnEl.textContent = TranslationManager.get('session.next');
+    this.closeBtnEl.textContent = TranslationManager.get('session.close');
+    this.render();
+  }
+
+  private start(): void {
+    this.promptId = this.options.getPromptId();
+    this.endsAt = Date.now() + this.minutes * 60 * 1000;
+    this.state = 'running';
+    // Browsers only allow audio that was set up during a user action like this click
+    this.prepareSound();
+    this.startTicking();
+    this.render();
+  }
+
+  private togglePause(): void {
+    if (this.state === 'running') {
+      this.remainingMs = Math.max(0, this.endsAt - Date.now());
+      this.state = 'paused';
+      this.stopTicking();
+    } else if (this.state === 'paused') {
+      this.endsAt = Date.now() + this.remainingMs;
+      this.state = 'running';
+      this.startTicking();
+    }
+    this.render();
+  }
+
+  private stop(): void {
+    // Stopped sessions are not logged
+    this.stopTicking();
+    this.state = 'idle';
+    this.render();
+  }
+
+  private finish(): void {
+    this.stopTicking();
+    this.state = 'finished';
+    if (this.promptId) {
+      SessionManager.addSession(this.promptId, this.minutes);
+    }
+    this.playChime();
+    this.render();
+  }
+
+  private startTicking(): void {
+    this.stopTicking();
+    // The end time decides, so throttled timers in background tabs don't slow the countdown
+    this.tickInterval = setInterval(() => {
+      if (Date.now() >= this.endsAt) {
+        this.finish();
+      } else {
+        this.renderTime(this.endsAt - Date.now());
+      }
+    }, TIMING.SESSION_TICK);
+  }
+
+  private stopTicking(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  private render(): void {
+    const isActive = this.state === 'running' || this.state === 'paused';
+    this.containerEl.classList.toggle(CSS_CLASSES.HIDDEN, !this.visible);
+    this.toggleBtnEl.classList.toggle(CSS_CLASSES.ACTIVE, this.visible);
+    this.setupEl.classList.toggle(CSS_CLASSES.HIDDEN, this.state !== 'idle');
+    this.runningEl.classList.toggle(CSS_CLASSES.HIDDEN, !isActive);
+    this.summaryEl.classList.toggle(CSS_CLASSES.HIDDEN, this.state !== 'finished');
+    // The gentle visual signal at the end
+    this.containerEl.classList.toggle('finished', this.state === 'finished');
+    this.containerEl.classList.toggle('paused', this.state === 'paused');
+
+    if (isActive) {
+      this.pauseBtnEl.textContent = TranslationManager.get(this.state === 'paused' ? 'session.resume' : 'session.pause');
+      this.renderTime(this.state === 'paused' ? this.remainingMs : this.endsAt - Date.now());
+    }
+    if (this.state === 'finished') {
+      this.summaryTextEl.textContent = [
+        TranslationManager.get('session.finished', { minutes: this.minutes }),
+        TranslationManager.plural('session.total', SessionManager.getSessions().length),
+      ].join(' ');
+    }
+  }
+
+  private renderTime(remainingMs: number): void {
+    const seconds = Math.max(0, Math.ceil(remainingMs / 1000));
+    this.timeEl.textContent = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+
+  private prepareSound(): void {
+    if (!this.soundInputEl.checked) {
+      return;
+    }
+    try {
+      if (!this.audioContext) {
+        this.audioContext = new AudioContext();
+      }
+      void this.audioContext.resume();
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Web Audio is not available:', error);
+    }
+  }
+
+  private playChime(): void {
+    const context = this.audioContext;
+    if (!context || !this.soundInputEl.checked) {
+      return;
+    }
+
+    // Soft sine tones that fade out, generated locally instead of loading a sound file
+    CHIME_NOTES.forEach((frequency, index) => {
+      const start = context.currentTime + index * CHIME_NOTE_GAP;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(CHIME_VOLUME, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + CHIME_NOTE_LENGTH);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + CHIME_NOTE_LENGTH);
+    });
+  }
+}
@@ -1,118 +1,67 @@
-import * as yaml from 'js-yaml';
-import { marked } from 'marked';
-import { Prompt, CategoryGroup, CleanPromptsData, PromptsData, Category } from './types.ts';
-
-// Configure marked for safe HTML rendering
-marked.setOptions({
-  breaks: true,
-  gfm: true,
-});
-
-export async function loadPrompts(language: string = 'EN'): Promise<CategoryGroup> {
-  try {
-    // Try to load from new unified file first
-    try {
-      return await loadPromptsFromUnified(language);
-    } catch (unifiedError) {
-      // eslint-disable-next-line no-console
-      console.warn('Failed to load from unified file, trying legacy format:', unifiedError);
-
-      // Fallback to legacy format for backward compatibility
-      return await loadPromptsLegacy(language);
-    }
-  } catch (error) {
-    // eslint-disable-next-line no-console
-    console.error('Error loading prompts:', error);
-    throw error;
-  }
-}
-
-async function loadPromptsFromUnified(language: string): Promise<CategoryGroup> {
-  const response = await fetch('./journal-prompts.yaml');
-  if (!response.ok) {
-    throw new Error(`Failed to fetch unified prompts: ${response.statusText}`);
-  }
-
-  const yamlText = await response.text();
+/**
+ * Parser for journal-prompts.yaml, run at build time (plugins/prompts.ts) and by the validator.
+ * The app itself loads the precompiled per-language JSON (see prompt-loader.ts) and only imports
+ * this parser for YAML prompt files placed next to it (see prompt-sources.ts).
+ */
 
+import * as yaml from 'js-yaml';
+import {
+  Prompt,
+  CategoryLabels,
+  CategoryAliases,
+  PromptCollection,
+  CleanPromptsData,
+  PromptsData,
+  Category
+} from './types.ts';
+import { buildCleanCollection, findInChain, readMetadata, readSlots, readTexts, toCollection } from './prompt-data.ts';
+import { hashString } from './utils.ts';
+
+/**
+ * Parses the unified prompt file in the clean or the nested structure
+ * @param yamlText - The contents of journal-prompts.yaml
+ * @param languages - The fallback chain, requested language first
+ */
+export function parsePrompts(yamlText: string, languages: string[]): PromptCollection {
   // Try to load as clean structure first
   try {
-    return loadPromptsFromCleanStructure(yamlText, language);
+    return parseCleanStructure(yamlText, languages);
   } catch (cleanError) {
     // eslint-disable-next-line no-console
     console.warn('Failed to load clean structure, trying nested format:', cleanError);
 
     // Fallback to nested structure
-    return loadPromptsFromNestedStructure(yamlText, language);
+    return parseNestedStructure(yamlText, languages);
   }
 }
 
-function loadPromptsFromCleanStructure(yamlText: string, language: string): CategoryGroup {
-  const data = yaml.load(yamlText) as CleanPromptsData;
-
-  if (!data || !data.categories || typeof data.categories !== 'object') {
-    throw new Error('Invalid clean prompts data structure - missing categories');
-  }
-
-  const prompts: Prompt[] = [];
-  const languageCode = language.toLowerCase();
-
-  // Process each category
-  for (const [categoryId, category] of Object.entries(data.categories)) {
-    if (!category.prompts || !Array.isArray(category.prompts)) {
-      // eslint-disable-next-line no-console
-      console.warn(`Category ${categoryId} missing prompts array, skipping`);
-      continue;
-    }
-
-    // Get category name in requested language with fallback to English
-    const categoryName = (category[languageCode] as string) || (category.en as string) || categoryId;
-
-    // Process each prompt in this category
-    for (const cleanPrompt of category.prompts) {
-      const translation = cleanPrompt[languageCode] as { prompt: string; purpose: string } | undefined;
-
-      if (!translation || typeof translation !== 'object' || !translation.prompt || !translation.purpose) {
-        // Fallback to English if requested language not available
-        const fallbackTranslation = cleanPrompt.en as { prompt: string; purpose: string } | undefined;
-        if (fallbackTranslation && typeof fallbackTranslation === 'object' && fallbackTranslation.prompt && fallbackTranslation.purpose) {
-          // eslint-disable-next-line no-console
-          console.warn(`Missing ${language} translation for prompt ${categoryId}${cleanPrompt.id}, using English fallback`);
-          prompts.push({
-            id: `${categoryId}${cleanPrompt.id}`, // Reconstruct combined ID for compatibility
-            category: categoryName,
-            prompt: fallbackTranslation.prompt.trim(),
-            purpose: fallbackTranslation.purpose.trim(),
-          });
-        } else {
-          // eslint-disable-next-line no-console
-          console.warn(`No translation available for prompt ${categoryId}${cleanPrompt.id}, skipping`);
-        }
-        continue;
-      }
-
-      prompts.push({
-        id: `${categoryId}${cleanPrompt.id}`, // Reconstruct combined ID for compatibility
-        category: categoryName,
-        prompt: translation.prompt.trim(),
-        purpose: translation.purpose.trim(),
-      });
-    }
-  }
-
-  // Group prompts by category
-  const grouped: CategoryGroup = {};
-  prompts.forEach(prompt => {
-    if (!grouped[prompt.category]) {
-      grouped[prompt.category] = [];
-    }
-    grouped[prompt.category].push(prompt);
-  });
+/**
+ * Tells the two structures of the unified prompt file apart
+ * @param yamlText - The YAML source
+ * @returns 'nested' if categories are a list, 'clean' otherwise
+ */
+export function getStructure(yamlText: string): 'clean' | 'nested' {
+  const data = yaml.load(yamlText) as { categories?: unknown } | null;
+  return data && Array.isArray(data.categories) ? 'nested' : 'clean';
+}
 
-  return grouped;
+/**
+ * Parses the clean structure: categories keyed by ID, with names and prompts per language
+ * @param yamlText - The YAML source
+ * @param languages - The fallback chain, requested language first
+ * @throws Error if the data has no categories
+ */
+export function parseCleanStructure(yamlText: string, languages: string[]): PromptCollection {
+  return buildCleanCollection(yaml.load(yamlText) as CleanPromptsData, languages, hashString(yamlText));
 }
 
-function loadPromptsFromNestedStructure(yamlText: string, language: string): CategoryGroup {
+/**
+ * Parses the nested structure: separate lists of categories and prompts with translations
+ * @param yamlText - The YAML source
+ * @param languages - The fallback chain, requested language first
+ * @throws Error if the data has no prompts or categories
+ */
+export function parseNestedStructure(yamlText: string, languages: string[]): PromptCollection {
   const data = yaml.load(yamlText) as PromptsData;
 
   if (!data || !data.prompts || !Array.isArray(data.prompts) || !data.categories || !Array.isArray(data.categories)) {
@@ -120,16 +69,25 @@ function loadPromptsFromNestedStructure(yamlText: string, language: string): Cat
   }
 
   const prompts: Prompt[] = [];
-  const languageCode = language.toLowerCase();
+  const labels: CategoryLabels = {};
+  const aliases: CategoryAliases = {};
+  const contentLanguages = new Set<string>();
 
   // Create category lookup map
   const categoryMap = new Map<string, Category>();
   data.categories.forEach(category => {
     categoryMap.set(category.id, category);
+
+    // Get category name along the fallback chain
+    const label = findInChain(languages, code => category.translations[code]);
+    labels[category.id] = label ? label.value : category.id;
+    Object.values(category.translations).forEach(name => {
+      aliases[name] = category.id;
+    });
   });
 
   for (const multiPrompt of data.prompts) {
-    const translation = multiPrompt.translations[languageCode];
+    Object.keys(multiPrompt.translations).forEach(key => contentLanguages.add(key.toUpperCase()));
     const category = categoryMap.get(multiPrompt.category_id);
 
     if (!category) {
@@ -138,55 +96,31 @@ function loadPromptsFromNestedStructure(yamlText: string, language: string): Cat
       continue;
     }
 
-    // Get category name in requested language with fallback to English
-    const categoryName = category.translations[languageCode] || category.translations.en || multiPrompt.category_id;
-
+    const translation = findInChain(languages, code => multiPrompt.translations[code]);
     if (!translation) {
-      // Fallback to English if requested language not available
-      const fallbackTranslation = multiPrompt.translations.en;
-      if (fallbackTranslation) {
-        // eslint-disable-next-line no-console
-        console.warn(`Missing ${language} translation for prompt ${multiPrompt.category_id}${multiPrompt.id}, using English fallback`);
-        prompts.push({
-          id: `${multiPrompt.category_id}${multiPrompt.id}`, // Reconstruct combined ID for compatibility
-          category: categoryName,
-          prompt: fallbackTranslation.prompt.trim(),
-          purpose: fallbackTranslation.purpose.trim(),
-        });
-      } else {
-        // eslint-disable-next-line no-console
-        console.warn(`No translation available for prompt ${multiPrompt.category_id}${multiPrompt.id}, skipping`);
-      }
+      // eslint-disable-next-line no-console
+      console.warn(`No translation available for prompt ${multiPrompt.category_id}${multiPrompt.id}, skipping`);
       continue;
     }
 
     prompts.push({
       id: `${multiPrompt.category_id}${multiPrompt.id}`, // Reconstruct combined ID for compatibility
-      category: categoryName,
-      prompt: translation.prompt.trim(),
-      purpose: translation.purpose.trim(),
+      category: category.id,
+      ...readTexts(translation.value, readSlots(data.slots, translation.language, languages)),
+      language: translation.language,
+      ...readMetadata({ ...multiPrompt }),
     });
   }
 
-  // Group prompts by category
-  const grouped: CategoryGroup = {};
-  prompts.forEach(prompt => {
-    if (!grouped[prompt.category]) {
-      grouped[prompt.category] = [];
-    }
-    grouped[prompt.category].push(prompt);
-  });
-
-  return grouped;
+  return toCollection(prompts, labels, aliases, hashString(yamlText), [...contentLanguages]);
 }
 
-async function loadPromptsLegacy(language: string): Promise<CategoryGroup> {
-  const response = await fetch(`./prompts_${language}.yaml`);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch legacy prompts: ${response.statusText}`);
-  }
-
-  const yamlText = await response.text();
+/**
+ * Parses the legacy format: one file per language with a YAML document per prompt
+ * @param yamlText - The YAML source, e.g. of prompts_EN.yaml
+ * @param language - The upper-case language of the file
+ */
+export function parseLegacyDocuments(yamlText: string, language: string): PromptCollection {
   const documents = yamlText.split('---').filter(doc => doc.trim());
 
   const prompts: Prompt[] = documents.map(doc => {
@@ -196,36 +130,15 @@ async function loadPromptsLegacy(language: string): Promise<CategoryGroup> {
       category: parsed.category,
       prompt: parsed.prompt.trim(),
       purpose: parsed.purpose.trim(),
+      language,
     };
   });
 
-  // Group prompts by category
-  const grouped: CategoryGroup = {};
+  // Legacy files carry no category IDs, so the name doubles as ID and label
+  const labels: CategoryLabels = {};
   prompts.forEach(prompt => {
-    if (!grouped[prompt.category]) {
-      grouped[prompt.category] = [];
-    }
-    grouped[prompt.category].push(prompt);
+    labels[prompt.category] = prompt.category;
   });
 
-  return grouped;
-}
-
-export function getRandomPrompt(prompts: Prompt[]): Prompt {
-  const randomIndex = Math.floor(Math.random() * prompts.length);
-  return prompts[randomIndex];
-}
-
-export function parseMarkdown(text: string): string {
-  return marked(text) as string;
-}
-
-export function findPromptById(categoryGroups: CategoryGroup, id: string): Prompt | null {
-  for (const category in categoryGroups) {
-    const prompt = categoryGroups[category].find(p => p.id === id);
-    if (prompt) {
-      return prompt;
-    }
-  }
-  return null;
+  return toCollection(prompts, labels, {}, hashString(yamlText), [language]);
 }
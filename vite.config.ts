@@ -1,7 +1,11 @@
 import { defineConfig } from 'vite'
+import { promptsPlugin } from './plugins/prompts'
+import { serviceWorkerPlugin } from './plugins/service-worker'
 
 export default defineConfig({
   base: './',
+  // The prompt files must be emitted before the service worker lists them for precaching
+  plugins: [promptsPlugin(), serviceWorkerPlugin()],
   build: {
     outDir: 'dist',
     assetsDir: 'assets',